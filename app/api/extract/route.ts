@@ -1,111 +1,69 @@
-import { google } from "@ai-sdk/google";
-import { generateObject } from "ai";
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
-
-
-const geminiModel = google("gemini-2.0-flash-exp");
-
-
-const extractedDataSchema = z.object({
-  bill_no: z.string().describe("Bill number, invoice number, or receipt number extracted from the document. If not found, return 'N/A'"),
-  amount: z.string().describe("Total amount or bill amount. Extract the final total value with currency symbol if present. If not found, return '0'"),
-  purpose: z.enum(["Conveyance", "Train", "Bus", "Food", "Hotel", "Project Expense", "Other"]).describe("Intelligently categorize the expense purpose based on document content. Analyze merchant name, items purchased, and context to determine the most appropriate category."),
-  raw_text: z.string().describe("All extracted text from the image for reference"),
-});
+import { ApiError, errorBody, errorResponse } from "@/lib/api-error";
+import { authenticate, type ApiClient } from "@/lib/auth";
+import { assertWithinBudget, runExtraction, toApiError } from "@/lib/extraction";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { encodeEvent, SSE_HEADERS } from "@/lib/sse";
+import { parseExtractionRequest, type ExtractionRequest } from "@/lib/upload";
+
+/**
+ * Streaming mode: `stage` events as the pipeline advances, `partial` events
+ * with the bills so far, then one `result` (the usual JSON body) or `error`.
+ */
+function streamExtraction(input: ExtractionRequest, client: ApiClient, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeEvent(event, data)));
+      };
+
+      send("stage", { stage: "validated" });
+      try {
+        const result = await runExtraction(input, client.id, {
+          signal,
+          onStage: (stage) => send("stage", stage),
+          onPartial: (bills) => send("partial", { bills }),
+        });
+        send("result", result);
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (!(error instanceof ApiError)) console.error("Extraction Error:", error);
+        send("error", { status: apiError.status, ...errorBody(apiError) });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
 
 export async function POST(request: NextRequest) {
   try {
 
-    const { image, mimeType } = await request.json();
+    const client = authenticate(request);
+    await enforceRateLimit(client);
+    await assertWithinBudget();
+    const input = await parseExtractionRequest(request);
 
-    if (!image) {
-      return NextResponse.json(
-        { error: "No image provided" },
-        { status: 400 }
-      );
+    // request.signal aborts when the client disconnects.
+    if (request.headers.get("accept")?.includes("text/event-stream")) {
+      return streamExtraction(input, client, request.signal);
     }
 
+    const result = await runExtraction(input, client.id, { signal: request.signal });
+    return NextResponse.json(result, { headers: { "X-Cache": result.cache.toUpperCase() } });
 
-
-const systemPrompt=`Extract fields: bill_no, amount, purpose.
-bill_no: Find Invoice/Receipt/Bill/Order/Transaction number, else "N/A".
-amount: Final total only; include currency; if missing "0".
-purpose: Classify as one: Conveyance/taxi/auto/uber/ola/parking, Train/railway/irctc/metro, Bus/bus/shuttle, Food/restaurant/cafe/zomato/swiggy/meal, Hotel/accommodation/lodging/room, Project Expense/office/supplies/equipment/software/tools, Other.
-Use context from merchant/items. Match largest/final amount. Be exact; keep formatting.
-`;
-
-    const userPrompt = "Extract bill_no, amount, purpose.";
-
-
-   
-    const imageData = image.includes(",") 
-      ? image 
-      : `data:${mimeType || "image/jpeg"};base64,${image}`; 
-
-    const { object: extractedData,usage } = await generateObject({
-      model: geminiModel,
-      schema: extractedDataSchema,
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: [
-            { type: "text", text: userPrompt },
-            { 
-              type: "image", 
-              image: imageData
-            },
-          ],
-        },
-      ],
-    });
-
-    console.log("Usage:", usage);   
-
-    if (!extractedData) {
-      return NextResponse.json(
-        { error: "Failed to extract data from image" },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: extractedData,
-    });
-
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    
- 
-    if (error.message?.includes("API_KEY")) {
-      return NextResponse.json(
-        { 
-          error: "Invalid API key. Please check your GOOGLE_GEMINI_API_KEY in .env.local",
-          instructions: "Get a new API key from https://aistudio.google.com/apikey"
-        },
-        { status: 401 }
-      );
-    }
-
-    if (error.message?.includes("quota") || error.message?.includes("rate limit")) {
-      return NextResponse.json(
-        { 
-          error: "API rate limit exceeded. Please try again later or upgrade your plan.",
-          details: error.message
-        },
-        { status: 429 }
-      );
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error("Extraction Error:", error);
     }
-    
-    return NextResponse.json(
-      { 
-        error: "Failed to process image with Gemini API",
-        details: error.message || "Unknown error",
-        suggestion: "Please try again or use Basic OCR mode"
-      },
-      { status: 500 }
-    );
+    return errorResponse(toApiError(error));
   }
 }
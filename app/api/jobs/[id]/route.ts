@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse } from "@/lib/api-error";
+import { authenticate } from "@/lib/auth";
+import { getJob } from "@/lib/jobs";
+
+// Suggested wait between polls while a job is unfinished.
+const POLL_AFTER_SECONDS = 2;
+
+/** A job's status, and its result or error once finished. Not rate limited, so polling doesn't use up extractions. */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const client = authenticate(request);
+    const job = await getJob((await params).id, client);
+    if (!job) {
+      throw new ApiError(404, "not_found", "No such job, or it has expired");
+    }
+
+    const unfinished = job.status === "queued" || job.status === "running";
+    return NextResponse.json(job, {
+      headers: unfinished ? { "Retry-After": String(POLL_AFTER_SECONDS) } : {},
+    });
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error("Job Error:", error);
+      return errorResponse(new ApiError(500, "internal_error", "Failed to read the job"));
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse } from "@/lib/api-error";
+import { authenticate } from "@/lib/auth";
+import { assertWithinBudget, toApiError } from "@/lib/extraction";
+import { submitJob } from "@/lib/jobs";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { parseJobRequest } from "@/lib/upload";
+
+/**
+ * Queues an extraction and answers at once with its job; poll
+ * `/api/jobs/:id`, or pass `callback_url`, for the result.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const client = authenticate(request);
+    await enforceRateLimit(client);
+    await assertWithinBudget();
+    const { input, options } = await parseJobRequest(request);
+
+    const { job, replayed } = await submitJob(input, options, {
+      client,
+      idempotencyKey: request.headers.get("idempotency-key"),
+    });
+
+    return NextResponse.json(job, {
+      status: replayed ? 200 : 202,
+      headers: {
+        Location: `/api/jobs/${job.id}`,
+        ...(replayed ? { "Idempotent-Replayed": "true" } : {}),
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error("Job Error:", error);
+    }
+    return errorResponse(toApiError(error));
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-error";
+import { authenticate } from "@/lib/auth";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { startOfUtcDay, summarizeUsage } from "@/lib/usage";
+import { getDailyBudget, getUsageSink } from "@/lib/usage-sink";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(7),
+});
+
+/** Usage summary for the last `days` UTC days, today included. */
+export async function GET(request: NextRequest) {
+  try {
+    await enforceRateLimit(authenticate(request));
+  } catch (error) {
+    if (error instanceof ApiError) return errorResponse(error);
+    throw error;
+  }
+
+  const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    return errorResponse(
+      new ApiError(400, "invalid_request", "Invalid query parameters", { details: z.flattenError(query.error).fieldErrors })
+    );
+  }
+
+  try {
+    const now = new Date();
+    const since = new Date(startOfUtcDay(now).getTime() - (query.data.days - 1) * DAY_MS);
+    const records = await getUsageSink().read(since);
+
+    return NextResponse.json(summarizeUsage(records, { since, dailyBudgetUsd: getDailyBudget(), now }));
+  } catch (error) {
+    console.error("Usage Error:", error);
+    return errorResponse(new ApiError(500, "internal_error", "Failed to read usage records"));
+  }
+}
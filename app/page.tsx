@@ -1,3 +1,4 @@
+import Link from "next/link";
 import ImageOCR from "@/components/ImageOCR";
 import { Sparkles, Zap, Shield } from "lucide-react";
 
@@ -55,6 +56,9 @@ export default function Home() {
             <p className="text-sm text-muted-foreground">
               All processing happens in your browser. Your images never leave your device.
             </p>
+            <Link href="/usage" className="inline-block mt-2 text-sm text-muted-foreground underline hover:text-foreground">
+              Usage &amp; cost
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,22 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import UsageDashboard from "@/components/UsageDashboard";
+
+export default function UsagePage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-slate-950 dark:via-slate-900 dark:to-indigo-950">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div className="space-y-2">
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft size={14} />
+            Back to extraction
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground tracking-tight">Usage &amp; Cost</h1>
+          <p className="text-muted-foreground">Tokens, estimated cost and latency of server-side extractions.</p>
+        </div>
+
+        <UsageDashboard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import type { QueueItem } from "./ReceiptQueue";
+
+interface BatchResultsTableProps {
+  items: QueueItem[];
+  onSelect: (id: string, billIndex: number) => void;
+}
+
+export default function BatchResultsTable({ items, onSelect }: BatchResultsTableProps) {
+  const rows = items.flatMap((item) =>
+    item.status === "done" ? (item.bills ?? []).map((bill, index) => ({ item, bill, index })) : []
+  );
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-border/50 bg-muted/30">
+        <h3 className="font-semibold text-foreground">Combined Results</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-muted-foreground">
+            <tr>
+              <th className="px-4 py-2 font-medium">File</th>
+              <th className="px-4 py-2 font-medium">Page</th>
+              <th className="px-4 py-2 font-medium">Date</th>
+              <th className="px-4 py-2 font-medium">Merchant</th>
+              <th className="px-4 py-2 font-medium">Bill Number</th>
+              <th className="px-4 py-2 font-medium">Amount</th>
+              <th className="px-4 py-2 font-medium">Purpose</th>
+              <th className="px-4 py-2 font-medium">Review</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border/50">
+            {rows.map(({ item, bill, index }) => (
+              <tr
+                key={`${item.id}-${index}`}
+                onClick={() => onSelect(item.id, index)}
+                className={`cursor-pointer hover:bg-muted/30 transition-colors ${bill.needs_review ? "bg-amber-500/5" : ""}`}
+              >
+                <td className="px-4 py-2 text-foreground truncate max-w-[12rem]">{item.file.name}</td>
+                <td className="px-4 py-2 text-muted-foreground">{bill.page}</td>
+                <td className="px-4 py-2 text-foreground whitespace-nowrap">{bill.date ?? "—"}</td>
+                <td className="px-4 py-2 text-foreground truncate max-w-[12rem]">{bill.merchant_name ?? "—"}</td>
+                <td className="px-4 py-2 text-foreground">{bill.bill_no}</td>
+                <td className="px-4 py-2 font-semibold text-green-600 dark:text-green-400">{bill.amount}</td>
+                <td className="px-4 py-2 text-foreground">{bill.purpose}</td>
+                <td className="px-4 py-2" title={bill.review_reasons.join("\n")}>
+                  {bill.needs_review ? (
+                    <span className="text-amber-700 dark:text-amber-400 font-medium">Review</span>
+                  ) : (
+                    <span className="text-green-600 dark:text-green-400">OK</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Camera, Check, CheckCircle2, Loader2, X } from "lucide-react";
+import {
+  ANALYSIS_WIDTH,
+  CAPTURE_ISSUE_MESSAGES,
+  assessFrame,
+  captureFrame,
+  grayscale,
+  guideRect,
+  stitchShots,
+  type FrameQuality,
+} from "@/lib/capture";
+
+interface CameraCaptureProps {
+  /** Receives the photo, or the stitched shots of a long receipt, as one JPEG. */
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+interface Shot {
+  canvas: HTMLCanvasElement;
+  thumbnail: string;
+}
+
+const CHECK_INTERVAL_MS = 400;
+
+// Share of the previous shot shown faintly at the top of the guide, to line up the next one.
+const OVERLAP_HINT = 0.15;
+
+function cameraErrorMessage(err: unknown): string {
+  if (err instanceof DOMException) {
+    if (err.name === "NotAllowedError") return "Camera access was denied. Allow it in your browser settings, or upload a photo instead.";
+    if (err.name === "NotFoundError" || err.name === "OverconstrainedError") return "No camera was found on this device.";
+    if (err.name === "NotReadableError") return "The camera is in use by another app.";
+  }
+  return err instanceof Error ? err.message : "Couldn't start the camera.";
+}
+
+/**
+ * Full-screen camera view for photographing receipts. A receipt outline shows
+ * where to hold the paper; the part inside it is checked for darkness, glare
+ * and blur while aiming, and is all that is kept of each shot. Long receipts
+ * are taken in several overlapping shots, stitched top to bottom.
+ */
+export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const [quality, setQuality] = useState<FrameQuality | null>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [isStitching, setIsStitching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error("This browser can't use the camera here. It needs a secure (HTTPS) connection.");
+      }
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      });
+      if (cancelled || !videoRef.current) return;
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+    };
+
+    start().catch((err) => {
+      if (!cancelled) setError(cameraErrorMessage(err));
+    });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!frameSize) return;
+    const guide = guideRect(frameSize.width, frameSize.height);
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      setQuality(assessFrame(grayscale(video, ANALYSIS_WIDTH, guide)));
+    }, CHECK_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [frameSize]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const guide = frameSize && guideRect(frameSize.width, frameSize.height);
+  const lastShot = shots[shots.length - 1];
+  const issues = quality?.issues ?? [];
+
+  const takeShot = () => {
+    const video = videoRef.current;
+    if (!video || !guide) return;
+    const canvas = captureFrame(video, guide);
+    setShots((prev) => [...prev, { canvas, thumbnail: canvas.toDataURL("image/jpeg", 0.5) }]);
+  };
+
+  const finish = async () => {
+    setIsStitching(true);
+    try {
+      const file = await stitchShots(
+        shots.map((shot) => shot.canvas),
+        `receipt-${new Date().toISOString().replace(/[:.]/g, "-")}.jpg`
+      );
+      onCapture(file);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't combine the photos.");
+      setIsStitching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center p-4 gap-4">
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors"
+        title="Close camera"
+      >
+        <X size={20} />
+      </button>
+
+      {error ? (
+        <div className="max-w-md p-4 rounded-xl bg-destructive/10 text-red-300 border border-destructive/30 flex items-start gap-3">
+          <AlertCircle size={20} className="mt-0.5 shrink-0" />
+          <p className="text-sm font-medium">{error}</p>
+        </div>
+      ) : (
+        <div className="relative w-fit mx-auto">
+          <video
+            ref={videoRef}
+            playsInline
+            muted
+            onLoadedMetadata={(e) => setFrameSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+            className="block max-h-[65vh] max-w-full rounded-xl"
+          />
+
+          {!frameSize && (
+            <div className="absolute inset-0 flex items-center justify-center text-white/80">
+              <Loader2 size={32} className="animate-spin" />
+            </div>
+          )}
+
+          {guide && (
+            <div
+              className={`absolute border-2 border-dashed rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none transition-colors ${
+                quality && issues.length === 0 ? "border-green-400" : "border-amber-400"
+              }`}
+              style={{
+                left: `${guide.x * 100}%`,
+                top: `${guide.y * 100}%`,
+                width: `${guide.width * 100}%`,
+                height: `${guide.height * 100}%`,
+              }}
+            >
+              {lastShot && (
+                <div className="absolute inset-x-0 top-0 overflow-hidden opacity-40" style={{ height: `${OVERLAP_HINT * 100}%` }}>
+                  <img src={lastShot.thumbnail} alt="" className="absolute bottom-0 w-full" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!error && (
+        <div className="min-h-6 text-sm text-white/90 text-center">
+          {!quality ? (
+            "Fit the receipt inside the outline"
+          ) : issues.length > 0 ? (
+            <span className="text-amber-300 flex items-center gap-2">
+              <AlertCircle size={16} />
+              {CAPTURE_ISSUE_MESSAGES[issues[0]]}
+            </span>
+          ) : (
+            <span className="text-green-300 flex items-center gap-2">
+              <CheckCircle2 size={16} />
+              {lastShot ? "Line up the faint strip with the end of the last shot" : "Looks good"}
+            </span>
+          )}
+        </div>
+      )}
+
+      {shots.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto max-w-full">
+          {shots.map((shot, index) => (
+            <div key={index} className="relative shrink-0">
+              <img src={shot.thumbnail} alt={`Shot ${index + 1}`} className="h-16 w-auto rounded border border-white/20" />
+              <button
+                onClick={() => setShots((prev) => prev.filter((_, i) => i !== index))}
+                disabled={isStitching}
+                className="absolute -top-1.5 -right-1.5 p-0.5 bg-black/80 text-white rounded-full"
+                title="Remove this shot"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={takeShot}
+          disabled={!guide || !!error || isStitching}
+          className="flex items-center gap-2 px-5 py-3 rounded-full bg-white text-black font-semibold hover:bg-white/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={issues.length > 0 ? CAPTURE_ISSUE_MESSAGES[issues[0]] : undefined}
+        >
+          <Camera size={20} />
+          {shots.length === 0 ? "Take photo" : "Add next part"}
+        </button>
+        {shots.length > 0 && (
+          <button
+            onClick={finish}
+            disabled={isStitching}
+            className="flex items-center gap-2 px-5 py-3 rounded-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold hover:from-indigo-700 hover:to-purple-700 transition-colors disabled:opacity-50"
+          >
+            {isStitching ? <Loader2 size={20} className="animate-spin" /> : <Check size={20} />}
+            {shots.length === 1 ? "Use photo" : `Combine ${shots.length} shots`}
+          </button>
+        )}
+      </div>
+      {shots.length === 0 && !error && (
+        <p className="text-xs text-white/60 text-center max-w-sm">
+          For a long receipt, photograph it in parts from top to bottom, each overlapping the last by a line or two.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { REVIEW_THRESHOLD } from "@/lib/confidence";
+
+interface ConfidenceBadgeProps {
+  value: number;
+}
+
+export const LOW_CONFIDENCE_RING = "ring-2 ring-amber-500/60";
+
+export const isLowConfidence = (value: number) => value < REVIEW_THRESHOLD;
+
+export default function ConfidenceBadge({ value }: ConfidenceBadgeProps) {
+  const percent = Math.round(value * 100);
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-md text-xs font-semibold border ${
+        isLowConfidence(value)
+          ? "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30"
+          : "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20"
+      }`}
+      title="Extraction confidence"
+    >
+      {percent}%
+    </span>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Pencil, X } from "lucide-react";
+
+interface EditableFieldProps {
+  value: string;
+  onSave: (value: string) => void;
+  validate: (value: string) => string | null;
+  options?: readonly string[];
+  label: string;
+  children: React.ReactNode;
+}
+
+/** Shows `children` until the pencil is clicked, then an input (or select when `options` is given). */
+export default function EditableField({ value, onSave, validate, options, label, children }: EditableFieldProps) {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>(value);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(value);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setError(null);
+  };
+
+  const save = () => {
+    const validationError = validate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (draft.trim() !== value) {
+      onSave(draft);
+    }
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") save();
+    if (e.key === "Escape") cancel();
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-center gap-2 group/edit">
+        {children}
+        <button
+          onClick={startEditing}
+          className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors opacity-60 group-hover/edit:opacity-100"
+          title={`Edit ${label}`}
+        >
+          <Pencil size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  const inputClass = `flex-1 min-w-0 px-3 py-2 rounded-lg bg-white dark:bg-slate-950 border text-foreground text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-ring ${
+    error ? "border-destructive" : "border-border"
+  }`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {options ? (
+          <select
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className={inputClass}
+            aria-label={label}
+            autoFocus
+          >
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={handleKeyDown}
+            className={inputClass}
+            aria-label={label}
+            autoFocus
+          />
+        )}
+        <button
+          onClick={save}
+          className="p-2 text-green-600 dark:text-green-400 hover:bg-green-500/10 rounded-lg transition-colors"
+          title="Save"
+        >
+          <Check size={16} />
+        </button>
+        <button
+          onClick={cancel}
+          className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+          title="Cancel"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { CalendarDays, CreditCard, Languages, ListOrdered, Receipt, Store } from "lucide-react";
+import ConfidenceBadge, { isLowConfidence, LOW_CONFIDENCE_RING } from "@/components/ConfidenceBadge";
+import type { BoxField, StructuredData } from "@/lib/expense";
+import { languageName } from "@/lib/locale";
+
+interface ExpenseDetailsProps {
+  data: StructuredData;
+  /** The field whose location is shown on the receipt image. */
+  highlighted?: BoxField | null;
+  /** Hover and click handlers that highlight a field on the receipt image. */
+  highlightProps?: (field: BoxField) => React.HTMLAttributes<HTMLElement>;
+}
+
+const formatNumber = (value: number | null, currency: string | null) => {
+  if (value === null) return "—";
+  try {
+    return currency
+      ? new Intl.NumberFormat(undefined, { style: "currency", currency }).format(value)
+      : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  } catch {
+    // Unknown ISO code from the model; fall back to a plain number.
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+};
+
+const DetailRow = ({ label, value }: { label: string; value: string | null }) => (
+  <div className="flex items-center justify-between gap-4 py-1.5 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium text-foreground text-right">{value || "—"}</span>
+  </div>
+);
+
+export default function ExpenseDetails({ data, highlighted, highlightProps }: ExpenseDetailsProps) {
+  const { taxes, currency } = data;
+  const taxRows = (
+    [
+      ["CGST", taxes.cgst],
+      ["SGST", taxes.sgst],
+      ["IGST", taxes.igst],
+      ["Other Tax", taxes.other],
+    ] as const
+  ).filter(([, value]) => value !== null);
+
+  return (
+    <>
+      {/* Merchant & Date Card */}
+      <div className={`bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg hover:shadow-xl transition-shadow ${isLowConfidence(Math.min(data.confidence.merchant_name, data.confidence.date)) ? LOW_CONFIDENCE_RING : ""}`}>
+        <div className="flex items-start justify-between">
+          <div
+            {...highlightProps?.("merchant_name")}
+            className={`flex-1 space-y-1 rounded-lg ${highlightProps ? "cursor-pointer" : ""} ${highlighted === "merchant_name" ? "ring-2 ring-amber-500 ring-offset-4 ring-offset-transparent" : ""}`}
+          >
+            <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              Merchant
+              <ConfidenceBadge value={data.confidence.merchant_name} />
+            </p>
+            <p className="text-xl font-bold text-foreground">{data.merchant_name || "N/A"}</p>
+            {data.merchant_gstin && (
+              <p className="text-xs font-mono text-muted-foreground">GSTIN {data.merchant_gstin}</p>
+            )}
+            {data.language && (data.language !== "en" || data.translated_to) && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Languages size={12} />
+                Printed in {languageName(data.language)}
+                {data.translated_to && data.translated_to !== data.language && ` · translated to ${languageName(data.translated_to)}`}
+              </p>
+            )}
+          </div>
+          <div className="p-3 rounded-xl bg-amber-500/10 text-amber-600 dark:text-amber-400">
+            <Store size={24} />
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+          <div
+            {...highlightProps?.("date")}
+            className={`flex items-center gap-2 text-foreground rounded-lg ${highlightProps ? "cursor-pointer" : ""} ${highlighted === "date" ? "ring-2 ring-purple-500 ring-offset-2 ring-offset-transparent" : ""}`}
+          >
+            <CalendarDays size={16} className="text-muted-foreground" />
+            {data.date || "No date"}
+            <ConfidenceBadge value={data.confidence.date} />
+          </div>
+          <div className="flex items-center gap-2 text-foreground">
+            <CreditCard size={16} className="text-muted-foreground" />
+            {data.payment_method || "Unknown payment"}
+          </div>
+        </div>
+      </div>
+
+      {/* Breakdown Card */}
+      <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg hover:shadow-xl transition-shadow">
+        <div className="flex items-center gap-2 mb-3">
+          <Receipt size={18} className="text-muted-foreground" />
+          <p className="text-sm font-medium text-muted-foreground">Breakdown {currency && `(${currency})`}</p>
+        </div>
+        <div className="divide-y divide-border/50">
+          <DetailRow label="Subtotal" value={formatNumber(data.subtotal, currency)} />
+          {taxRows.map(([label, value]) => (
+            <DetailRow key={label} label={label} value={formatNumber(value, currency)} />
+          ))}
+          {data.tip !== null && <DetailRow label="Tip" value={formatNumber(data.tip, currency)} />}
+          <DetailRow label="Total" value={formatNumber(data.amount_value, currency)} />
+        </div>
+      </div>
+
+      {/* Line Items */}
+      {data.line_items.length > 0 && (
+        <details className="bg-white/60 dark:bg-slate-900/60 backdrop-blur-sm rounded-2xl border border-border/50 overflow-hidden shadow-lg">
+          <summary className="p-4 cursor-pointer hover:bg-muted/30 transition-colors font-medium text-foreground flex items-center gap-2">
+            <ListOrdered size={18} className="text-muted-foreground" />
+            Line Items ({data.line_items.length})
+          </summary>
+          <div className="border-t border-border/50 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Description</th>
+                  <th className="px-4 py-2 font-medium text-right">Qty</th>
+                  <th className="px-4 py-2 font-medium text-right">Unit Price</th>
+                  <th className="px-4 py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {data.line_items.map((item, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 text-foreground">{item.description}</td>
+                    <td className="px-4 py-2 text-right text-foreground">{item.quantity ?? "—"}</td>
+                    <td className="px-4 py-2 text-right text-foreground">{formatNumber(item.unit_price, currency)}</td>
+                    <td className="px-4 py-2 text-right text-foreground">{formatNumber(item.total, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </>
+  );
+}
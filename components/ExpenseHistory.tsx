@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileText, FolderOpen, History, Loader2, Search, Trash2 } from "lucide-react";
+import { categoryNames, getCategorySet } from "@/lib/categories";
+import { EMPTY_FILTER, filterRecords, recordDate, type HistoryFilter } from "@/lib/history";
+import { getExpenseStore, type ExpenseRecord } from "@/lib/storage";
+
+interface ExpenseHistoryProps {
+  onOpen: (record: ExpenseRecord) => void;
+  /** Bump to reload after new receipts are saved elsewhere. */
+  refreshKey: number;
+}
+
+export default function ExpenseHistory({ onOpen, refreshKey }: ExpenseHistoryProps) {
+  const [records, setRecords] = useState<ExpenseRecord[] | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getExpenseStore()
+      .list()
+      .then((list) => {
+        if (!cancelled) setRecords(list);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError("Couldn't load saved expenses from this browser.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const deleteRecord = async (id: string) => {
+    try {
+      await getExpenseStore().delete(id);
+      setRecords((prev) => prev?.filter((record) => record.id !== id) ?? null);
+    } catch (err) {
+      console.error(err);
+      setError("Couldn't delete the expense.");
+    }
+  };
+
+  const visible = records ? filterRecords(records, filter) : [];
+  const inputClass = "px-3 py-2 rounded-lg bg-white dark:bg-slate-950 border border-border text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-border/50 bg-muted/30 space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="p-2 rounded-lg bg-primary/10 text-primary">
+            <History size={18} />
+          </div>
+          <h3 className="font-semibold text-foreground">Expense History</h3>
+          {records && <span className="text-xs text-muted-foreground">({visible.length} of {records.length})</span>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <input
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+              placeholder="Search merchant, bill number, text..."
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+          <select
+            value={filter.purpose}
+            onChange={(e) => setFilter({ ...filter, purpose: e.target.value })}
+            className={inputClass}
+            aria-label="Filter by purpose"
+          >
+            <option value="">All purposes</option>
+            {categoryNames(getCategorySet()).map((purpose) => (
+              <option key={purpose} value={purpose}>
+                {purpose}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filter.from}
+            onChange={(e) => setFilter({ ...filter, from: e.target.value })}
+            className={inputClass}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filter.to}
+            onChange={(e) => setFilter({ ...filter, to: e.target.value })}
+            className={inputClass}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {error && <p className="p-4 text-sm text-destructive">{error}</p>}
+
+      {!records && !error ? (
+        <div className="p-8 flex items-center justify-center text-muted-foreground">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="p-8 text-center text-sm text-muted-foreground">
+          {records && records.length > 0 ? "No expenses match these filters." : "Extracted receipts will be saved here."}
+        </p>
+      ) : (
+        <ul className="max-h-[28rem] overflow-auto divide-y divide-border/50">
+          {visible.map((record) => {
+            const bill = record.bills[0];
+            return (
+              <li key={record.id} className="flex items-center gap-3 p-3 hover:bg-muted/30 transition-colors">
+                {record.thumbnail ? (
+                  <img src={record.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover bg-muted shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 rounded-lg bg-muted text-muted-foreground flex items-center justify-center shrink-0">
+                    <FileText size={20} />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {bill?.merchant_name || record.fileName}
+                    {record.bills.length > 1 && (
+                      <span className="text-muted-foreground font-normal"> · {record.bills.length} bills</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {recordDate(record)} · {bill?.purpose} · {bill?.bill_no}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-green-600 dark:text-green-400 whitespace-nowrap">
+                  {bill?.amount}
+                </span>
+                <button
+                  onClick={() => onOpen(record)}
+                  className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                  title="Reopen"
+                >
+                  <FolderOpen size={16} />
+                </button>
+                <button
+                  onClick={() => deleteRecord(record.id)}
+                  className="p-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-lg transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
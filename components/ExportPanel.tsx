@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { Braces, FileSpreadsheet, FileText, Printer, Table } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import {
+  columnsFor,
+  DEFAULT_COLUMN_KEYS,
+  EXPORT_COLUMNS,
+  toCsv,
+  toExpenseReportHtml,
+  toJson,
+  toXlsx,
+  XLSX_MIME_TYPE,
+  type ExportRow,
+} from "@/lib/export";
+import type { ProcessedBill } from "@/lib/postprocess";
+import { createThumbnail } from "@/lib/thumbnail";
+
+export interface ExportSource {
+  id: string;
+  file: File;
+  bills?: ProcessedBill[];
+}
+
+interface ExportPanelProps {
+  sources: ExportSource[];
+  selectedId: string | null;
+}
+
+type ExportScope = "selected" | "all";
+
+const REPORT_THUMBNAIL_SIZE = 480;
+
+const toRows = (sources: ExportSource[], thumbnails: Map<string, string | null> = new Map()): ExportRow[] =>
+  sources.flatMap((source) =>
+    (source.bills ?? []).map((bill) => ({ receipt: source.file.name, bill, thumbnail: thumbnails.get(source.id) ?? null }))
+  );
+
+export default function ExportPanel({ sources, selectedId }: ExportPanelProps) {
+  const [scope, setScope] = useState<ExportScope>("selected");
+  const [columnKeys, setColumnKeys] = useState<string[]>(DEFAULT_COLUMN_KEYS);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const exportable = sources.filter((source) => source.bills && source.bills.length > 0);
+  const scoped = scope === "all" ? exportable : exportable.filter((source) => source.id === selectedId);
+  const columns = columnsFor(columnKeys);
+  const baseName = scope === "all" ? "expenses" : (scoped[0]?.file.name.replace(/\.[^.]+$/, "") ?? "expense");
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const exportCsv = () => downloadFile(toCsv(toRows(scoped), columns), `${baseName}.csv`, "text/csv;charset=utf-8");
+
+  const exportSpreadsheet = () =>
+    downloadFile(toXlsx(toRows(scoped), columns), `${baseName}.xlsx`, XLSX_MIME_TYPE);
+
+  const exportJson = () => downloadFile(toJson(toRows(scoped)), `${baseName}.json`, "application/json");
+
+  const openReport = async () => {
+    // Opened before any await, while still handling the click, so popup blockers allow it.
+    const reportWindow = window.open("", "_blank");
+    if (!reportWindow) {
+      setReportError("The report window was blocked. Allow pop-ups for this site and try again.");
+      return;
+    }
+    reportWindow.document.title = "Preparing report…";
+    setReportError(null);
+    setIsPreparing(true);
+    try {
+      const thumbnails = new Map(
+        await Promise.all(
+          scoped.map(async (source) => [source.id, await createThumbnail(source.file, REPORT_THUMBNAIL_SIZE)] as const)
+        )
+      );
+      reportWindow.addEventListener("load", () => reportWindow.print(), { once: true });
+      reportWindow.document.open();
+      reportWindow.document.write(toExpenseReportHtml(toRows(scoped, thumbnails)));
+      reportWindow.document.close();
+    } catch (err) {
+      reportWindow.close();
+      setReportError(err instanceof Error ? err.message : "Couldn't prepare the report.");
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const buttonClass = "flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border border-border/50 bg-white/60 dark:bg-slate-900/60 text-foreground hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const disabled = scoped.length === 0 || isPreparing;
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-4 shadow-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-muted-foreground">Export</p>
+        {exportable.length > 1 && (
+          <div className="inline-flex p-0.5 rounded-lg bg-muted/50 text-xs">
+            <button
+              onClick={() => setScope("selected")}
+              className={`px-2 py-1 rounded-md ${scope === "selected" ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+            >
+              This receipt
+            </button>
+            <button
+              onClick={() => setScope("all")}
+              className={`px-2 py-1 rounded-md ${scope === "all" ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+            >
+              All {exportable.length}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <button onClick={exportCsv} disabled={disabled || columns.length === 0} className={buttonClass}>
+          <Table size={16} />
+          CSV
+        </button>
+        <button onClick={exportSpreadsheet} disabled={disabled || columns.length === 0} className={buttonClass}>
+          <FileSpreadsheet size={16} />
+          Excel
+        </button>
+        <button onClick={exportJson} disabled={disabled} className={buttonClass}>
+          <Braces size={16} />
+          JSON
+        </button>
+        <button onClick={openReport} disabled={disabled} className={buttonClass} title="Opens a printable report; choose Save as PDF to keep a copy">
+          {isPreparing ? <FileText size={16} className="animate-pulse" /> : <Printer size={16} />}
+          Report
+        </button>
+      </div>
+      {reportError && <p className="text-sm text-destructive">{reportError}</p>}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+          Columns ({columns.length} of {EXPORT_COLUMNS.length})
+        </summary>
+        <div className="mt-2 grid grid-cols-2 gap-1">
+          {EXPORT_COLUMNS.map((column) => (
+            <label key={column.key} className="flex items-center gap-2 text-foreground">
+              <input
+                type="checkbox"
+                checked={columnKeys.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { BOX_FIELDS, type BoundingBox, type BoxField, type FieldBoxes } from "@/lib/expense";
+
+interface FieldOverlayProps {
+  src: string;
+  boxes: FieldBoxes;
+  highlighted: BoxField | null;
+  /** The field being re-read; the user drags a box around it on the image. */
+  drawing: BoxField | null;
+  onDraw: (box: BoundingBox) => void;
+  onCancelDraw: () => void;
+}
+
+export const FIELD_LABELS: Record<BoxField, string> = {
+  bill_no: "Bill Number",
+  amount: "Amount",
+  date: "Date",
+  merchant_name: "Merchant",
+};
+
+// Matches the colour of each field's result card.
+const FIELD_COLORS: Record<BoxField, string> = {
+  bill_no: "border-blue-500 bg-blue-500/20",
+  amount: "border-green-500 bg-green-500/20",
+  date: "border-purple-500 bg-purple-500/20",
+  merchant_name: "border-amber-500 bg-amber-500/20",
+};
+
+const LABEL_COLORS: Record<BoxField, string> = {
+  bill_no: "bg-blue-500",
+  amount: "bg-green-500",
+  date: "bg-purple-500",
+  merchant_name: "bg-amber-500",
+};
+
+// Drags smaller than this are treated as a click, not a region.
+const MIN_REGION = 0.01;
+
+interface ImageBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const normalize = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * The image the extractor saw, with a box around each field it located. The
+ * highlighted field stands out; the others stay faint.
+ */
+export default function FieldOverlay({ src, boxes, highlighted, drawing, onDraw, onCancelDraw }: FieldOverlayProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [imageBox, setImageBox] = useState<ImageBox | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const measure = () => {
+    const image = imageRef.current;
+    if (image) {
+      setImageBox({ left: image.offsetLeft, top: image.offsetTop, width: image.offsetWidth, height: image.offsetHeight });
+    }
+  };
+
+  useEffect(() => {
+    const image = imageRef.current;
+    if (!image) return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, [src]);
+
+  const pointFrom = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFrom(e);
+    setDragStart(point);
+    setDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDraft(normalize(dragStart, pointFrom(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width > MIN_REGION && draft.height > MIN_REGION) {
+      onDraw(draft);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const styleFor = (box: BoundingBox) =>
+    imageBox && {
+      left: imageBox.left + box.x * imageBox.width,
+      top: imageBox.top + box.y * imageBox.height,
+      width: box.width * imageBox.width,
+      height: box.height * imageBox.height,
+    };
+
+  return (
+    <>
+      <img ref={imageRef} src={src} alt="Extracted receipt" onLoad={measure} className="max-w-full max-h-full object-contain" />
+
+      {!drawing && imageBox && BOX_FIELDS.map((field) => {
+        const box = boxes[field];
+        if (!box) return null;
+        const isHighlighted = highlighted === field;
+
+        return (
+          <div
+            key={field}
+            className={`absolute border-2 rounded-sm pointer-events-none transition-opacity ${FIELD_COLORS[field]} ${
+              isHighlighted ? "opacity-100 shadow-[0_0_0_9999px_rgba(0,0,0,0.3)] z-10" : highlighted ? "opacity-20" : "opacity-60"
+            }`}
+            style={styleFor(box) ?? undefined}
+          >
+            {isHighlighted && (
+              <span className={`absolute -top-5 left-0 px-1.5 rounded text-[10px] font-semibold text-white whitespace-nowrap ${LABEL_COLORS[field]}`}>
+                {FIELD_LABELS[field]}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {drawing && (
+        <>
+          <div
+            className="absolute inset-0 cursor-crosshair touch-none z-20"
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          />
+          {draft && imageBox && (
+            <div className={`absolute border-2 pointer-events-none z-20 ${FIELD_COLORS[drawing]}`} style={styleFor(draft) ?? undefined} />
+          )}
+          <div
+            className="absolute top-2 left-2 right-12 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-black/60 text-white text-xs backdrop-blur-sm z-30"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="flex-1">Drag a box around the {FIELD_LABELS[drawing].toLowerCase()} to read it again</span>
+            <button onClick={onCancelDraw} className="p-0.5 hover:bg-white/20 rounded" title="Cancel">
+              <X size={14} />
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Crop, RotateCcw, RotateCw, Undo2 } from "lucide-react";
+import { NO_ADJUSTMENTS, type CropRect, type ManualAdjustments, type Rotation } from "@/lib/preprocess";
+
+interface ImageAdjusterProps {
+  src: string;
+  adjustments: ManualAdjustments;
+  onChange: (adjustments: ManualAdjustments) => void;
+  disabled?: boolean;
+}
+
+// Drags smaller than this are treated as a click, not a crop.
+const MIN_CROP = 0.02;
+
+interface ImageBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const normalize = (a: { x: number; y: number }, b: { x: number; y: number }): CropRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Receipt preview with manual rotate and crop. The crop is drawn on the
+ * upright image; rotation is applied after it, as in `preprocessImage`.
+ */
+export default function ImageAdjuster({ src, adjustments, onChange, disabled }: ImageAdjusterProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [isCropping, setIsCropping] = useState<boolean>(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+  const [imageBox, setImageBox] = useState<ImageBox | null>(null);
+
+  // Where the image sits inside the preview, for positioning the crop outline.
+  const measure = () => {
+    const image = imageRef.current;
+    if (image) {
+      setImageBox({ left: image.offsetLeft, top: image.offsetTop, width: image.offsetWidth, height: image.offsetHeight });
+    }
+  };
+
+  useEffect(() => {
+    const image = imageRef.current;
+    if (!image) return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, [src]);
+
+  const pointFrom = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFrom(e);
+    setDragStart(point);
+    setDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDraft(normalize(dragStart, pointFrom(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width > MIN_CROP && draft.height > MIN_CROP) {
+      onChange({ ...adjustments, crop: draft });
+      setIsCropping(false);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const rotate = (quarterTurns: number) => {
+    onChange({ ...adjustments, rotation: (((adjustments.rotation + quarterTurns * 90) % 360 + 360) % 360) as Rotation });
+  };
+
+  const shownCrop = draft ?? adjustments.crop;
+  const cropStyle = shownCrop && imageBox
+    ? {
+        left: imageBox.left + shownCrop.x * imageBox.width,
+        top: imageBox.top + shownCrop.y * imageBox.height,
+        width: shownCrop.width * imageBox.width,
+        height: shownCrop.height * imageBox.height,
+      }
+    : null;
+
+  const toolClass = "p-2 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed";
+  const isAdjusted = adjustments.rotation !== 0 || adjustments.crop !== null;
+
+  return (
+    <>
+      <img
+        ref={imageRef}
+        src={src}
+        alt="Preview"
+        onLoad={measure}
+        className="max-w-full max-h-full object-contain transition-transform"
+        // The crop is drawn on the upright image, so only show the rotation outside crop mode.
+        style={{ transform: isCropping ? undefined : `rotate(${adjustments.rotation}deg)` }}
+      />
+
+      {isCropping && (
+        <div
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      )}
+
+      {cropStyle && (isCropping || adjustments.rotation === 0) && (
+        <div
+          className="absolute border-2 border-primary bg-primary/10 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+          style={cropStyle}
+        />
+      )}
+
+      <div className="absolute bottom-2 left-2 flex gap-2" onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => rotate(-1)} disabled={disabled} className={toolClass} title="Rotate left">
+          <RotateCcw size={16} />
+        </button>
+        <button onClick={() => rotate(1)} disabled={disabled} className={toolClass} title="Rotate right">
+          <RotateCw size={16} />
+        </button>
+        <button
+          onClick={() => setIsCropping((value) => !value)}
+          disabled={disabled}
+          className={`${toolClass} ${isCropping ? "ring-2 ring-primary" : ""}`}
+          title={isCropping ? "Cancel crop" : "Crop: drag over the receipt"}
+        >
+          <Crop size={16} />
+        </button>
+        {isAdjusted && (
+          <button
+            onClick={() => {
+              onChange(NO_ADJUSTMENTS);
+              setIsCropping(false);
+            }}
+            disabled={disabled}
+            className={toolClass}
+            title="Undo rotate and crop"
+          >
+            <Undo2 size={16} />
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -3,54 +3,208 @@
 import { useState, useRef } from "react";
 import { 
   Upload, 
+  Camera,
   FileText, 
   Copy, 
+  CopyX,
   Download, 
   X, 
   Image as ImageIcon, 
   Loader2, 
-  CheckCircle2,
   AlertCircle,
-  Sparkles
+  AlertTriangle,
+  Eye,
+  History,
+  ShieldAlert,
+  ScanSearch,
+  ShieldX,
+  Sparkles,
+  Square,
+  ScanText
 } from "lucide-react";
+import BatchResultsTable from "@/components/BatchResultsTable";
+import CameraCapture from "@/components/CameraCapture";
+import ConfidenceBadge, { isLowConfidence, LOW_CONFIDENCE_RING } from "@/components/ConfidenceBadge";
+import EditableField from "@/components/EditableField";
+import ExpenseHistory from "@/components/ExpenseHistory";
+import ImageAdjuster from "@/components/ImageAdjuster";
+import ExportPanel from "@/components/ExportPanel";
+import ExpenseDetails from "@/components/ExpenseDetails";
+import FieldOverlay, { FIELD_LABELS } from "@/components/FieldOverlay";
+import PartialResult from "@/components/PartialResult";
+import PurposeBadge from "@/components/PurposeBadge";
+import ReceiptQueue, { type QueueItem } from "@/components/ReceiptQueue";
+import { ExtractionRequestError, requestExtraction } from "@/lib/api";
+import {
+  applyCorrection,
+  createCorrection,
+  validateField,
+  type CorrectableField,
+  type CorrectionRecord,
+} from "@/lib/corrections";
+import { categoryNames, DEFAULT_DEPARTMENT, DEPARTMENTS, findCategory, getCategorySet } from "@/lib/categories";
+import { downloadFile } from "@/lib/download";
+import { billKey, describeDuplicate, findDuplicates, mergeDuplicates, type DuplicateMatch } from "@/lib/duplicates";
+import { isPdf, type BoundingBox, type BoxField } from "@/lib/expense";
+import type { ExtractionStage, StageEvent } from "@/lib/extraction";
+import { locateFields, toPixels } from "@/lib/field-boxes";
+import { fingerprintFile, perceptualHash } from "@/lib/fingerprint";
+import { extractFieldsFromText, readFieldFromSnippet } from "@/lib/heuristics";
+import { evaluatePolicy, getPolicy } from "@/lib/policy";
+import {
+  DEFAULT_PREPROCESS_SETTINGS,
+  NO_ADJUSTMENTS,
+  preprocessImage,
+  type PreprocessOptions,
+  type PreprocessSettings,
+} from "@/lib/preprocess";
+import { fingerprintedRecords } from "@/lib/history";
+import { OUTPUT_LANGUAGES } from "@/lib/locale";
+import { postProcessBill, type ProcessedBill, type PurposeSource } from "@/lib/postprocess";
+import { createTaskQueue, type TaskQueue } from "@/lib/queue";
+import { getExpenseStore, type ExpenseRecord } from "@/lib/storage";
+import { recognize } from "@/lib/tesseract";
+import { createThumbnail } from "@/lib/thumbnail";
 
-interface StructuredData {
-  bill_no: string;
-  amount: string;
-  purpose: "Conveyance" | "Train" | "Bus" | "Food" | "Hotel" | "Project Expense" | "Other";
-  raw_text: string;
+type ExtractionMode = "ai" | "basic";
+
+/** Fields that can be corrected by reading them again from a region of the image. */
+type RereadableField = Extract<CorrectableField, BoxField>;
+
+interface QueueTask {
+  id: string;
+  file: File;
+  mode: ExtractionMode;
+  preprocess: PreprocessOptions;
+  department: string;
+  /** AI mode only; Basic mode can't translate. */
+  outputLanguage?: string;
 }
 
+const MAX_CONCURRENT_EXTRACTIONS = 3;
+
+// The server's stages, plus "preprocessed", which the browser reports itself before uploading.
+type ProgressStage = ExtractionStage | "preprocessed";
+
+const STAGE_PROGRESS: Record<ProgressStage, number> = {
+  preprocessed: 0.1,
+  validated: 0.2,
+  model_called: 0.35,
+  post_processed: 0.95,
+};
+
+const stageUpdate = ({ stage, provider, attempt = 1 }: Omit<StageEvent, "stage"> & { stage: ProgressStage }): Partial<QueueItem> => {
+  const statusText = {
+    preprocessed: "Image prepared, uploading...",
+    validated: "Upload validated, starting extraction...",
+    model_called: attempt > 1 ? `Calling ${provider} (attempt ${attempt})...` : `Analyzing image with ${provider}...`,
+    post_processed: "Checking results...",
+  }[stage];
+
+  return { statusText, progress: STAGE_PROGRESS[stage] };
+};
+
+// The extractor's own choice needs no explanation.
+const PURPOSE_SOURCE_LABELS: Record<PurposeSource, string | null> = {
+  model: null,
+  merchant_rule: "merchant rule",
+  keyword_rule: "keyword rule",
+  manual: "set by you",
+};
+
 export default function ImageOCR() {
-  const [image, setImage] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [text, setText] = useState<string>("");
-  const [structuredData, setStructuredData] = useState<StructuredData | null>(null);
-  const [status, setStatus] = useState<string>("");
-  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedBillIndex, setSelectedBillIndex] = useState<number>(0);
+  const [mode, setMode] = useState<ExtractionMode>("ai");
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(DEFAULT_PREPROCESS_SETTINGS);
+  // "" keeps merchant names and line items as printed.
+  const [outputLanguage, setOutputLanguage] = useState<string>("");
+  const [department, setDepartment] = useState<string>(DEFAULT_DEPARTMENT);
   const [error, setError] = useState<string | null>(null);
   const [apiKeyMissing, setApiKeyMissing] = useState<boolean>(false);
+  const [corrections, setCorrections] = useState<CorrectionRecord[]>([]);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+  const [hoveredField, setHoveredField] = useState<BoxField | null>(null);
+  const [pinnedField, setPinnedField] = useState<BoxField | null>(null);
+  const [rereadField, setRereadField] = useState<RereadableField | null>(null);
+  const [isRereading, setIsRereading] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  const queueRef = useRef<TaskQueue<QueueTask> | null>(null);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const extractedUrlsRef = useRef<Map<string, string>>(new Map());
+
+  const selectedItem = items.find((item) => item.id === selectedId) ?? null;
+  const bills = selectedItem?.bills ?? [];
+  const structuredData = bills[selectedBillIndex] ?? null;
+  const text = structuredData?.raw_text ?? "";
+  const categories = getCategorySet(selectedItem?.department);
+  // Receipts reopened from history have no stored result, so they are checked again.
+  const policyResult = selectedItem?.policy ?? evaluatePolicy(bills, getPolicy(selectedItem?.department));
+  const policyViolations = policyResult.violations.filter(
+    (violation) => violation.bill_index === selectedBillIndex
+  );
+  const selectedDuplicates = (selectedItem?.duplicates ?? []).filter(
+    (match) => match.bill_index === null || match.bill_index === selectedBillIndex
+  );
+  const pendingCount = items.filter((item) => item.status === "pending" && !item.queued).length;
+  const isProcessing = items.some((item) => item.status === "processing" || (item.status === "pending" && item.queued));
+  const displayError = error ?? (selectedItem?.status === "failed" ? selectedItem.error ?? null : null);
+  const highlightedField = hoveredField ?? pinnedField;
+
+  const selectItem = (id: string | null, billIndex = 0) => {
+    setSelectedId(id);
+    setSelectedBillIndex(billIndex);
+    setPinnedField(null);
+    setRereadField(null);
+  };
+
+  // Hovering a result card highlights its field on the image; clicking keeps it highlighted.
+  const highlightProps = (field: BoxField) => ({
+    onMouseEnter: () => setHoveredField(field),
+    onMouseLeave: () => setHoveredField(null),
+    onClick: () => setPinnedField((pinned) => (pinned === field ? null : field)),
+  });
+
+  const setExtractedUrl = (id: string, url: string | null) => {
+    const previous = extractedUrlsRef.current.get(id);
+    if (previous) URL.revokeObjectURL(previous);
+    if (url) extractedUrlsRef.current.set(id, url);
+    else extractedUrlsRef.current.delete(id);
+  };
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      processFile(file);
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
+      e.target.value = "";
     }
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith("image/")) {
-      setError("Please upload a valid image file.");
+  const addFiles = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith("image/") || isPdf(file.type));
+
+    if (images.length === 0) {
+      setError("Please upload a valid image or PDF file.");
       return;
     }
 
-    setImage(file);
-    setPreviewUrl(URL.createObjectURL(file));
-    setError(null);
-    setText("");
-    setStructuredData(null);
-    setStatus("");
+    const newItems: QueueItem[] = images.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: "pending",
+      queued: false,
+    }));
+
+    setItems((prev) => [...prev, ...newItems]);
+    setSelectedId((current) => current ?? newItems[0].id);
+    setError(images.length < files.length ? `Skipped ${files.length - images.length} file(s) that are not images or PDFs.` : null);
     setApiKeyMissing(false);
   };
 
@@ -63,67 +217,181 @@ export default function ImageOCR() {
     e.preventDefault();
     e.stopPropagation();
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
     }
   };
 
-  const performAIExtraction = async () => {
-    if (!image) return;
+  const performBasicExtraction = async (id: string, file: File, department: string, signal: AbortSignal): Promise<ProcessedBill[]> => {
+    if (isPdf(file.type)) {
+      throw new Error("PDF files need AI Extraction.");
+    }
 
-    setIsProcessing(true);
-    setError(null);
-    setText("");
-    setStructuredData(null);
-    setStatus("Uploading to Gemini AI...");
+    const { text: ocrText, words } = await recognize(file, {
+      signal,
+      onProgress: ({ status, progress }) => {
+        updateItem(id, { statusText: status.charAt(0).toUpperCase() + status.slice(1), progress });
+      },
+    });
+
+    updateItem(id, { statusText: "Parsing expense fields...", progress: undefined });
+    const categories = getCategorySet(department);
+    const fields = extractFieldsFromText(ocrText, categories);
+    const bitmap = await createImageBitmap(file);
+    const fieldBoxes = locateFields(fields, words, bitmap);
+    bitmap.close();
+
+    return [postProcessBill({ ...fields, field_boxes: fieldBoxes, page: 1 }, { categories })];
+  };
 
+  const saveExpense = async (
+    id: string,
+    file: File,
+    bills: ProcessedBill[],
+    serverDuplicates: DuplicateMatch[],
+    extractedImage?: File
+  ) => {
     try {
-      // Convert image to base64
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(image);
-      });
+      const store = getExpenseStore();
+      const fingerprint = await fingerprintFile(file, bills);
+      const duplicates = mergeDuplicates(findDuplicates(fingerprint, fingerprintedRecords(await store.list(), id)), serverDuplicates);
+      updateItem(id, { duplicates, ...(duplicates.length > 0 && { needsReview: true }) });
 
-      const base64Image = await base64Promise;
-      setStatus("Analyzing image with AI...");
-
-      // Call API route
-      const response = await fetch("/api/extract", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image: base64Image,
-          mimeType: image.type,
-        }),
+      const now = new Date().toISOString();
+      await store.save({
+        id,
+        fileName: file.name,
+        mimeType: file.type,
+        thumbnail: await createThumbnail(file),
+        file,
+        extractedImage,
+        bills,
+        fingerprint,
+        createdAt: now,
+        updatedAt: now,
       });
+      setHistoryVersion((version) => version + 1);
+    } catch (err) {
+      console.error("Failed to save expense:", err);
+    }
+  };
 
-      const result = await response.json();
+  const runTask = async ({ id, file, mode, preprocess, department, outputLanguage }: QueueTask) => {
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    updateItem(id, { status: "processing", statusText: "Preparing image...", progress: undefined, error: undefined });
 
-      if (!response.ok) {
-        if (result.error?.includes("API key")) {
-          setApiKeyMissing(true);
-          setError(result.error + " " + (result.instructions || ""));
-        } else {
-          setError(result.error || "Failed to extract text");
-        }
+    try {
+      const prepared = await preprocessImage(file, preprocess);
+      updateItem(id, mode === "ai" ? stageUpdate({ stage: "preprocessed" }) : { statusText: "Loading OCR engine...", progress: 0 });
+
+      const response = mode === "ai"
+        ? await requestExtraction(prepared, {
+            signal: controller.signal,
+            uploadId: id,
+            department,
+            perceptualHash: await perceptualHash(file),
+            outputLanguage,
+            onStage: (event) => updateItem(id, stageUpdate(event)),
+            onPartial: (partial) => updateItem(id, { partial }),
+          })
+        : null;
+      const bills = response?.bills ?? (await performBasicExtraction(id, prepared, department, controller.signal));
+      // Field boxes refer to the image the extractor saw, so keep it when preprocessing changed it.
+      const extractedImage = prepared !== file ? { file: prepared, url: URL.createObjectURL(prepared) } : undefined;
+      setExtractedUrl(id, extractedImage?.url ?? null);
+      updateItem(id, {
+        status: "done",
+        bills,
+        department,
+        policy: response?.policy ?? evaluatePolicy(bills, getPolicy(department)),
+        needsReview: response?.needs_review ?? bills.some((bill) => bill.needs_review),
+        extractedImage,
+        partial: undefined,
+        statusText: undefined,
+        progress: undefined,
+      });
+      await saveExpense(id, file, bills, response?.duplicates ?? [], extractedImage?.file);
+    } catch (err) {
+      // Cancelled, or removed while in flight (then the update is a no-op).
+      if (controller.signal.aborted) {
+        updateItem(id, { status: "pending", queued: false, partial: undefined, statusText: undefined, progress: undefined });
         return;
       }
+      console.error(err);
 
-      // Set extracted data
-      const extractedData = result.data;
-      setStructuredData(extractedData);
-      setText(extractedData.raw_text || "");
+      let message: string;
+      if (err instanceof ExtractionRequestError) {
+        message = err.message;
+        if (err.message.includes("API key")) {
+          setApiKeyMissing(true);
+          setError(err.message + " " + (err.instructions || ""));
+        }
+      } else {
+        const prefix = mode === "ai" ? "Failed to connect to AI service." : "Failed to run Basic OCR.";
+        message = `${prefix} ${err instanceof Error ? err.message : ""}`.trim();
+      }
 
-    } catch (err: any) {
-      console.error(err);
-      setError("Failed to connect to AI service. " + (err.message || ""));
+      updateItem(id, { status: "failed", error: message, partial: undefined, statusText: undefined, progress: undefined });
     } finally {
-      setIsProcessing(false);
-      setStatus("");
+      controllersRef.current.delete(id);
+    }
+  };
+
+  const getQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createTaskQueue(MAX_CONCURRENT_EXTRACTIONS, runTask);
+    }
+    return queueRef.current;
+  };
+
+  const taskFor = (item: QueueItem): QueueTask => ({
+    id: item.id,
+    file: item.file,
+    mode,
+    preprocess: { ...preprocessSettings, ...(item.adjustments ?? NO_ADJUSTMENTS) },
+    department,
+    outputLanguage: outputLanguage || undefined,
+  });
+
+  const performExtraction = () => {
+    const tasks = items.filter((item) => item.status === "pending" && !item.queued).map(taskFor);
+
+    if (tasks.length === 0) return;
+
+    const queuedIds = new Set(tasks.map((task) => task.id));
+    setItems((prev) => prev.map((item) => (queuedIds.has(item.id) ? { ...item, queued: true } : item)));
+    setError(null);
+    setApiKeyMissing(false);
+    getQueue().enqueue(...tasks);
+  };
+
+  const retryItem = (id: string) => {
+    const item = items.find((i) => i.id === id);
+    if (!item) return;
+
+    updateItem(id, { status: "pending", queued: true, error: undefined });
+    setError(null);
+    setApiKeyMissing(false);
+    getQueue().enqueue(taskFor(item));
+  };
+
+  const cancelItem = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+  };
+
+  const removeItem = (id: string) => {
+    const item = items.find((i) => i.id === id);
+    if (item) {
+      URL.revokeObjectURL(item.previewUrl);
+    }
+    setExtractedUrl(id, null);
+    controllersRef.current.get(id)?.abort();
+
+    const remaining = items.filter((i) => i.id !== id);
+    setItems(remaining);
+    if (selectedId === id) {
+      selectItem(remaining[0]?.id ?? null);
     }
   };
 
@@ -135,21 +403,110 @@ export default function ImageOCR() {
 
   const downloadText = () => {
     if (text) {
-      const element = document.createElement("a");
-      const file = new Blob([text], { type: "text/plain" });
-      element.href = URL.createObjectURL(file);
-      element.download = "extracted-text.txt";
-      document.body.appendChild(element);
-      element.click();
-      document.body.removeChild(element);
+      downloadFile(text, "extracted-text.txt", "text/plain");
+    }
+  };
+
+  const correctField = (field: CorrectableField, value: string, box?: BoundingBox) => {
+    if (!selectedItem || !structuredData) return;
+
+    const source = { receipt: selectedItem.file.name, bill_index: selectedBillIndex, page: structuredData.page };
+    const correctedBills = bills.map((bill, index) => {
+      if (index !== selectedBillIndex) return bill;
+      const corrected = applyCorrection(bill, field, value, categories);
+      return box ? { ...corrected, field_boxes: { ...corrected.field_boxes, [field]: box } } : corrected;
+    });
+
+    setCorrections((prev) => [...prev, createCorrection(prev, source, field, structuredData[field], value)]);
+    updateItem(selectedItem.id, {
+      bills: correctedBills,
+      policy: evaluatePolicy(correctedBills, getPolicy(selectedItem.department)),
+      needsReview: correctedBills.some((bill) => bill.needs_review) || (selectedItem.duplicates?.length ?? 0) > 0,
+    });
+    const store = getExpenseStore();
+    store
+      .get(selectedItem.id)
+      .then((record) =>
+        store.update(selectedItem.id, {
+          bills: correctedBills,
+          ...(record?.fingerprint && { fingerprint: { ...record.fingerprint, bills: correctedBills.map(billKey) } }),
+        })
+      )
+      .then(() => setHistoryVersion((version) => version + 1))
+      .catch((err) => console.error("Failed to save correction:", err));
+  };
+
+  const rereadFromRegion = async (field: RereadableField, box: BoundingBox) => {
+    if (!selectedItem) return;
+
+    setRereadField(null);
+    setIsRereading(true);
+    setError(null);
+    try {
+      const image = selectedItem.extractedImage?.file ?? selectedItem.file;
+      const bitmap = await createImageBitmap(image);
+      const rectangle = toPixels(box, bitmap);
+      bitmap.close();
+
+      const { text: regionText } = await recognize(image, { rectangle });
+      const value = readFieldFromSnippet(field, regionText);
+      const invalid = value === null ? "Nothing readable there." : validateField(field, value, categories);
+      if (invalid) {
+        setError(`Couldn't read the ${FIELD_LABELS[field].toLowerCase()} in that area. ${invalid}`);
+        return;
+      }
+      correctField(field, value!, box);
+      setPinnedField(field);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to read that area of the image.");
+    } finally {
+      setIsRereading(false);
+    }
+  };
+
+  const openRecord = (record: ExpenseRecord) => {
+    if (!items.some((item) => item.id === record.id)) {
+      const file = new File([record.file], record.fileName, { type: record.mimeType });
+      const extractedFile = record.extractedImage && new File([record.extractedImage], record.fileName, { type: record.extractedImage.type });
+      const extractedImage = extractedFile ? { file: extractedFile, url: URL.createObjectURL(extractedFile) } : undefined;
+      if (extractedImage) setExtractedUrl(record.id, extractedImage.url);
+      setItems((prev) => [
+        ...prev,
+        { id: record.id, file, previewUrl: URL.createObjectURL(file), extractedImage, status: "done", queued: false, bills: record.bills },
+      ]);
+    }
+    selectItem(record.id);
+  };
+
+  const openOriginal = async (id: string) => {
+    try {
+      const record = await getExpenseStore().get(id);
+      if (record) {
+        openRecord(record);
+      } else {
+        setError("The original receipt is no longer in your history.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Couldn't open the original receipt.");
+    }
+  };
+
+  const exportCorrections = () => {
+    if (corrections.length > 0) {
+      downloadFile(JSON.stringify(corrections, null, 2), "corrections.json", "application/json");
     }
   };
 
   const reset = () => {
-    setImage(null);
-    setPreviewUrl(null);
-    setText("");
-    setStructuredData(null);
+    items.forEach((item) => {
+      URL.revokeObjectURL(item.previewUrl);
+      setExtractedUrl(item.id, null);
+    });
+    controllersRef.current.forEach((controller) => controller.abort());
+    setItems([]);
+    setSelectedId(null);
     setError(null);
     setApiKeyMissing(false);
     if (fileInputRef.current) {
@@ -157,8 +514,26 @@ export default function ImageOCR() {
     }
   };
 
+  const canReread = selectedItem !== null && !isPdf(selectedItem.file.type) && !isRereading;
+
+  const rereadButton = (field: RereadableField) =>
+    canReread && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setRereadField(rereadField === field ? null : field);
+        }}
+        className={`p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors ${rereadField === field ? "ring-2 ring-primary" : ""}`}
+        title="Read again from an area of the image"
+      >
+        <ScanSearch size={16} />
+      </button>
+    );
+
   return (
     <div className="w-full max-w-6xl mx-auto space-y-8">
+      {isCameraOpen && <CameraCapture onCapture={(file) => addFiles([file])} onClose={() => setIsCameraOpen(false)} />}
+
       {/* Header */}
       <div className="flex justify-center">
         <div className="inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl shadow-lg shadow-purple-500/25">
@@ -167,6 +542,44 @@ export default function ImageOCR() {
         </div>
       </div>
 
+      {/* Mode Toggle */}
+      <div className="flex justify-center">
+        <div className="inline-flex p-1 rounded-xl bg-white/60 dark:bg-slate-900/60 backdrop-blur-md border border-border/50 shadow-sm">
+          <button
+            onClick={() => setMode("ai")}
+            disabled={isProcessing}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+              mode === "ai" ? "bg-primary text-primary-foreground shadow" : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <Sparkles size={16} />
+            AI Extraction
+          </button>
+          <button
+            onClick={() => setMode("basic")}
+            disabled={isProcessing}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+              mode === "basic" ? "bg-primary text-primary-foreground shadow" : "text-muted-foreground hover:text-foreground"
+            }`}
+            title="Runs OCR in your browser; the image is never uploaded, but the OCR engine and language data are downloaded on first use"
+          >
+            <ScanText size={16} />
+            Basic OCR (In Browser)
+          </button>
+        </div>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className={`ml-3 flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border border-border/50 backdrop-blur-md shadow-sm transition-colors ${
+            showHistory ? "bg-primary text-primary-foreground" : "bg-white/60 dark:bg-slate-900/60 text-muted-foreground hover:text-foreground"
+          }`}
+        >
+          <History size={16} />
+          History
+        </button>
+      </div>
+
+      {showHistory && <ExpenseHistory onOpen={openRecord} refreshKey={historyVersion} />}
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         
@@ -178,34 +591,54 @@ export default function ImageOCR() {
               border-2 border-dashed rounded-2xl p-8
               bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm
               shadow-lg hover:shadow-xl
-              ${image 
+              ${selectedItem 
                 ? 'border-primary/50 bg-primary/5 shadow-primary/10' 
                 : 'border-border hover:border-primary/50 hover:bg-muted/50'
               }
             `}
             onDragOver={handleDragOver}
             onDrop={handleDrop}
-            onClick={() => !image && fileInputRef.current?.click()}
+            onClick={() => !selectedItem && fileInputRef.current?.click()}
           >
             <input 
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileChange} 
               className="hidden" 
-              accept="image/*"
+              accept="image/*,application/pdf"
+              multiple
             />
 
-            {previewUrl ? (
+            {selectedItem ? (
               <div className="relative rounded-xl overflow-hidden shadow-lg aspect-video flex items-center justify-center bg-black/5 dark:bg-white/5">
-                <img 
-                  src={previewUrl} 
-                  alt="Preview" 
-                  className="max-w-full max-h-full object-contain"
-                />
+                {isPdf(selectedItem.file.type) ? (
+                  <object
+                    data={selectedItem.previewUrl}
+                    type="application/pdf"
+                    className="w-full h-full"
+                    aria-label="PDF preview"
+                  />
+                ) : selectedItem.status === "done" && structuredData ? (
+                  <FieldOverlay
+                    src={selectedItem.extractedImage?.url ?? selectedItem.previewUrl}
+                    boxes={structuredData.field_boxes ?? {}}
+                    highlighted={highlightedField}
+                    drawing={rereadField}
+                    onDraw={(box) => rereadField && rereadFromRegion(rereadField, box)}
+                    onCancelDraw={() => setRereadField(null)}
+                  />
+                ) : (
+                  <ImageAdjuster
+                    src={selectedItem.previewUrl}
+                    adjustments={selectedItem.adjustments ?? NO_ADJUSTMENTS}
+                    onChange={(adjustments) => updateItem(selectedItem.id, { adjustments })}
+                    disabled={selectedItem.status === "processing" || (selectedItem.queued && selectedItem.status === "pending")}
+                  />
+                )}
                 <button 
                   onClick={(e) => {
                     e.stopPropagation();
-                    reset();
+                    removeItem(selectedItem.id);
                   }}
                   className="absolute top-2 right-2 p-2 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors backdrop-blur-sm"
                 >
@@ -222,42 +655,135 @@ export default function ImageOCR() {
                     Upload a Receipt
                   </h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Drag & drop or click to browse
+                    Drag & drop one or more receipts, or click to browse
                   </p>
                 </div>
                 <p className="text-xs text-muted-foreground/60">
-                  Supports PNG, JPG, JPEG, WEBP
+                  Supports PNG, JPG, JPEG, WEBP, PDF
                 </p>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setIsCameraOpen(true);
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg border border-border/50 bg-white/60 dark:bg-black/30 text-sm font-medium text-foreground hover:border-primary/50 transition-colors"
+                >
+                  <Camera size={16} />
+                  Take a photo
+                </button>
               </div>
             )}
           </div>
 
-          {image && !structuredData && !isProcessing && (
+          {pendingCount > 0 && (
+            <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 text-sm text-muted-foreground">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preprocessSettings.enhance}
+                  onChange={(e) => setPreprocessSettings({ ...preprocessSettings, enhance: e.target.checked })}
+                />
+                Enhance contrast
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preprocessSettings.autoCrop}
+                  onChange={(e) => setPreprocessSettings({ ...preprocessSettings, autoCrop: e.target.checked })}
+                />
+                Auto-crop to receipt
+              </label>
+              {DEPARTMENTS.length > 1 && (
+                <label className="flex items-center gap-2">
+                  Department
+                  <select
+                    value={department}
+                    onChange={(e) => setDepartment(e.target.value)}
+                    className="px-2 py-1 rounded-md border border-border/50 bg-white/60 dark:bg-slate-900/60 text-foreground"
+                  >
+                    {DEPARTMENTS.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {mode === "ai" && (
+                <label className="flex items-center gap-2">
+                  Translate to
+                  <select
+                    value={outputLanguage}
+                    onChange={(e) => setOutputLanguage(e.target.value)}
+                    className="px-2 py-1 rounded-md border border-border/50 bg-white/60 dark:bg-slate-900/60 text-foreground"
+                  >
+                    <option value="">Keep as printed</option>
+                    {Object.entries(OUTPUT_LANGUAGES).map(([code, name]) => (
+                      <option key={code} value={code}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
+          {isRereading && (
+            <div className="bg-white/60 dark:bg-slate-900/60 backdrop-blur-md rounded-xl p-4 text-sm font-medium text-primary flex items-center gap-2 shadow-lg">
+              <Loader2 size={16} className="animate-spin" />
+              Reading the selected area...
+            </div>
+          )}
+
+          {pendingCount > 0 && (
             <button
-              onClick={performAIExtraction}
+              onClick={performExtraction}
               className="w-full py-4 rounded-xl font-medium shadow-lg hover:shadow-xl hover:scale-[1.02] active:scale-[0.98] transition-all duration-200 flex items-center justify-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-purple-500/25"
             >
-              <Sparkles size={20} />
-              Extract Expense Data
+              {mode === "ai" ? <Sparkles size={20} /> : <ScanText size={20} />}
+              {mode === "ai" ? "Extract Expense Data" : "Extract with Basic OCR"}
+              {pendingCount > 1 && ` (${pendingCount} receipts)`}
             </button>
           )}
 
-          {isProcessing && (
+          {selectedItem?.status === "processing" && (
             <div className="bg-white/60 dark:bg-slate-900/60 backdrop-blur-md rounded-xl p-6 space-y-4 animate-fade-in shadow-lg">
               <div className="flex items-center justify-between text-sm font-medium">
                 <span className="text-primary flex items-center gap-2">
                   <Loader2 size={16} className="animate-spin" />
-                  {status || "Processing..."}
+                  {selectedItem.statusText || "Processing..."}
+                </span>
+                <span className="flex items-center gap-3">
+                  {selectedItem.progress !== undefined && (
+                    <span className="text-muted-foreground">{Math.round(selectedItem.progress * 100)}%</span>
+                  )}
+                  <button
+                    onClick={() => cancelItem(selectedItem.id)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                    title="Cancel extraction"
+                  >
+                    <Square size={12} />
+                    Cancel
+                  </button>
                 </span>
               </div>
+              {selectedItem.progress !== undefined && (
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-indigo-600 to-purple-600 transition-all duration-300"
+                    style={{ width: `${Math.round(selectedItem.progress * 100)}%` }}
+                  />
+                </div>
+              )}
             </div>
           )}
 
-          {error && (
+          {displayError && (
             <div className="p-4 rounded-xl bg-destructive/10 text-destructive border border-destructive/20 flex items-start gap-3 animate-slide-up">
               <AlertCircle size={20} className="mt-0.5 shrink-0" />
               <div className="flex-1">
-                <p className="text-sm font-medium">{error}</p>
+                <p className="text-sm font-medium">{displayError}</p>
                 {apiKeyMissing && (
                   <div className="mt-3 p-3 bg-white/50 dark:bg-black/20 rounded-lg text-xs space-y-2">
                     <p className="font-semibold">Setup Instructions:</p>
@@ -273,101 +799,262 @@ export default function ImageOCR() {
               </div>
             </div>
           )}
+
+          {items.length > 0 && (
+            <ReceiptQueue
+              items={items}
+              selectedId={selectedId}
+              onSelect={selectItem}
+              onRetry={retryItem}
+              onRemove={removeItem}
+              onAddMore={() => fileInputRef.current?.click()}
+              onTakePhoto={() => setIsCameraOpen(true)}
+              onClear={isProcessing ? undefined : reset}
+            />
+          )}
         </div>
 
         {/* Right Column: Results */}
         <div className="space-y-6">
           {structuredData ? (
             /* AI Extraction Results - Expense Cards */
-            <div className="space-y-4">
+            <div key={`${selectedId}-${selectedBillIndex}`} className="space-y-4">
+              {/* Bill Tabs (multi-bill documents) */}
+              {bills.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {bills.map((bill, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setSelectedBillIndex(index)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                        index === selectedBillIndex
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "bg-white/60 dark:bg-slate-900/60 text-muted-foreground border-border/50 hover:text-foreground"
+                      }`}
+                    >
+                      Bill {index + 1} · Page {bill.page}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Review Banner */}
+              {structuredData.needs_review && (
+                <div className="p-4 rounded-xl bg-amber-500/10 text-amber-700 dark:text-amber-400 border border-amber-500/20 animate-slide-up">
+                  <p className="text-sm font-semibold flex items-center gap-2">
+                    <Eye size={16} />
+                    Needs review
+                  </p>
+                  <p className="text-sm mt-1">{structuredData.review_reasons.join(" · ")}</p>
+                </div>
+              )}
+
+              {/* Duplicate Warning */}
+              {selectedDuplicates.length > 0 && (
+                <div className="p-4 rounded-xl bg-red-500/10 text-red-700 dark:text-red-400 border border-red-500/20 flex items-start gap-3 animate-slide-up">
+                  <CopyX size={20} className="mt-0.5 shrink-0" />
+                  <div className="text-sm space-y-1">
+                    <p className="font-semibold">Possible duplicate</p>
+                    <ul className="space-y-1">
+                      {selectedDuplicates.map((match) => (
+                        <li key={`${match.kind}-${match.original.id}-${match.original_bill_index}`}>
+                          {describeDuplicate(match)}, saved {new Date(match.original.created_at).toLocaleDateString()}.{" "}
+                          <button onClick={() => openOriginal(match.original.id)} className="underline font-medium hover:no-underline">
+                            Open original
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              {/* Policy Violations */}
+              {policyViolations.length > 0 && (
+                <ul className="space-y-2 animate-slide-up">
+                  {policyViolations.map((violation) => (
+                    <li
+                      key={`${violation.rule_id}-${violation.message}`}
+                      className={`p-4 rounded-xl border flex items-start gap-3 text-sm ${
+                        violation.severity === "block"
+                          ? "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"
+                          : "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
+                      }`}
+                    >
+                      {violation.severity === "block" ? (
+                        <ShieldX size={20} className="mt-0.5 shrink-0" />
+                      ) : (
+                        <ShieldAlert size={20} className="mt-0.5 shrink-0" />
+                      )}
+                      <div>
+                        <p className="font-semibold">{violation.severity === "block" ? "Blocked by policy" : "Policy warning"}</p>
+                        <p>{violation.message}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Validation Warnings */}
+              {structuredData.warnings.length > 0 && (
+                <div className="p-4 rounded-xl bg-amber-500/10 text-amber-700 dark:text-amber-400 border border-amber-500/20 flex items-start gap-3 animate-slide-up">
+                  <AlertTriangle size={20} className="mt-0.5 shrink-0" />
+                  <ul className="text-sm space-y-1">
+                    {structuredData.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Bill Number Card */}
-              <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg hover:shadow-xl transition-shadow">
+              <div
+                {...highlightProps("bill_no")}
+                className={`bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border p-6 shadow-lg hover:shadow-xl transition-shadow ${highlightedField === "bill_no" ? "border-blue-500" : "border-border/50"} ${isLowConfidence(structuredData.confidence.bill_no) ? LOW_CONFIDENCE_RING : ""}`}
+              >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <p className="text-sm font-medium text-muted-foreground mb-1">Bill Number</p>
-                    <p className="text-2xl font-bold text-foreground">{structuredData.bill_no}</p>
+                    <p className="text-sm font-medium text-muted-foreground mb-1 flex items-center gap-2">
+                      Bill Number
+                      <ConfidenceBadge value={structuredData.confidence.bill_no} />
+                    </p>
+                    <EditableField
+                      label="bill number"
+                      value={structuredData.bill_no}
+                      validate={(value) => validateField("bill_no", value, categories)}
+                      onSave={(value) => correctField("bill_no", value)}
+                    >
+                      <p className="text-2xl font-bold text-foreground">{structuredData.bill_no}</p>
+                    </EditableField>
                   </div>
-                  <div className="p-3 rounded-xl bg-blue-500/10 text-blue-600 dark:text-blue-400">
-                    <FileText size={24} />
+                  <div className="flex flex-col items-end gap-2">
+                    <div className="p-3 rounded-xl bg-blue-500/10 text-blue-600 dark:text-blue-400">
+                      <FileText size={24} />
+                    </div>
+                    {rereadButton("bill_no")}
                   </div>
                 </div>
               </div>
 
               {/* Amount Card */}
-              <div className="bg-gradient-to-br from-green-500/10 to-emerald-500/10 dark:from-green-500/20 dark:to-emerald-500/20 backdrop-blur-sm rounded-2xl border border-green-500/20 p-6 shadow-lg hover:shadow-xl transition-shadow">
+              <div
+                {...highlightProps("amount")}
+                className={`bg-gradient-to-br from-green-500/10 to-emerald-500/10 dark:from-green-500/20 dark:to-emerald-500/20 backdrop-blur-sm rounded-2xl border p-6 shadow-lg hover:shadow-xl transition-shadow ${highlightedField === "amount" ? "border-green-500" : "border-green-500/20"} ${isLowConfidence(structuredData.confidence.amount) ? LOW_CONFIDENCE_RING : ""}`}
+              >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <p className="text-sm font-medium text-green-700 dark:text-green-400 mb-1">Amount</p>
-                    <p className="text-3xl font-bold text-green-600 dark:text-green-400">{structuredData.amount}</p>
+                    <p className="text-sm font-medium text-green-700 dark:text-green-400 mb-1 flex items-center gap-2">
+                      Amount
+                      <ConfidenceBadge value={structuredData.confidence.amount} />
+                    </p>
+                    <EditableField
+                      label="amount"
+                      value={structuredData.amount}
+                      validate={(value) => validateField("amount", value, categories)}
+                      onSave={(value) => correctField("amount", value)}
+                    >
+                      <p className="text-3xl font-bold text-green-600 dark:text-green-400">{structuredData.amount}</p>
+                    </EditableField>
                   </div>
-                  <div className="p-3 rounded-xl bg-green-500/20 text-green-600 dark:text-green-400">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                      <line x1="12" y1="1" x2="12" y2="23"></line>
-                      <path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"></path>
-                    </svg>
+                  <div className="flex flex-col items-end gap-2">
+                    <div className="p-3 rounded-xl bg-green-500/20 text-green-600 dark:text-green-400">
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="12" y1="1" x2="12" y2="23"></line>
+                        <path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"></path>
+                      </svg>
+                    </div>
+                    {rereadButton("amount")}
                   </div>
                 </div>
               </div>
 
               {/* Purpose Card */}
-              <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg hover:shadow-xl transition-shadow">
+              <div className={`bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg hover:shadow-xl transition-shadow ${isLowConfidence(structuredData.confidence.purpose) ? LOW_CONFIDENCE_RING : ""}`}>
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <p className="text-sm font-medium text-muted-foreground mb-2">Purpose</p>
-                    <div className="flex items-center gap-2">
-                      {structuredData.purpose === "Conveyance" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-orange-500/10 text-orange-600 dark:text-orange-400 font-semibold text-sm border border-orange-500/20">
-                          🚗 Conveyance
-                        </span>
-                      )}
-                      {structuredData.purpose === "Train" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-600 dark:text-blue-400 font-semibold text-sm border border-blue-500/20">
-                          🚆 Train
-                        </span>
-                      )}
-                      {structuredData.purpose === "Bus" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 font-semibold text-sm border border-indigo-500/20">
-                          🚌 Bus
-                        </span>
-                      )}
-                      {structuredData.purpose === "Food" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-500/10 text-red-600 dark:text-red-400 font-semibold text-sm border border-red-500/20">
-                          🍽️ Food
-                        </span>
-                      )}
-                      {structuredData.purpose === "Hotel" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-purple-500/10 text-purple-600 dark:text-purple-400 font-semibold text-sm border border-purple-500/20">
-                          🏨 Hotel
-                        </span>
-                      )}
-                      {structuredData.purpose === "Project Expense" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/10 text-cyan-600 dark:text-cyan-400 font-semibold text-sm border border-cyan-500/20">
-                          💼 Project Expense
-                        </span>
-                      )}
-                      {structuredData.purpose === "Other" && (
-                        <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-500/10 text-gray-600 dark:text-gray-400 font-semibold text-sm border border-gray-500/20">
-                          📋 Other
-                        </span>
-                      )}
-                    </div>
+                    <p className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-2">
+                      Purpose
+                      <ConfidenceBadge value={structuredData.confidence.purpose} />
+                    </p>
+                    <EditableField
+                      label="purpose"
+                      value={structuredData.purpose}
+                      options={categoryNames(categories)}
+                      validate={(value) => validateField("purpose", value, categories)}
+                      onSave={(value) => correctField("purpose", value)}
+                    >
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <PurposeBadge category={findCategory(categories, structuredData.purpose)} name={structuredData.purpose} />
+                        {(structuredData.gl_code || PURPOSE_SOURCE_LABELS[structuredData.purpose_source]) && (
+                          <span className="text-xs text-muted-foreground">
+                            {[
+                              structuredData.gl_code && `GL ${structuredData.gl_code}`,
+                              PURPOSE_SOURCE_LABELS[structuredData.purpose_source],
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </span>
+                        )}
+                      </div>
+                    </EditableField>
                   </div>
                 </div>
               </div>
 
+              <ExpenseDetails data={structuredData} highlighted={highlightedField} highlightProps={highlightProps} />
+
               {/* Raw Text Collapsible */}
               <details className="bg-white/60 dark:bg-slate-900/60 backdrop-blur-sm rounded-2xl border border-border/50 overflow-hidden shadow-lg">
                 <summary className="p-4 cursor-pointer hover:bg-muted/30 transition-colors font-medium text-foreground flex items-center gap-2">
                   <FileText size={18} className="text-muted-foreground" />
                   View Raw Extracted Text
+                  {structuredData.translated_to && (
+                    <span className="text-xs font-normal text-muted-foreground">(original language)</span>
+                  )}
                 </summary>
                 <div className="p-4 border-t border-border/50 bg-muted/10">
                   <pre className="text-sm text-foreground/80 whitespace-pre-wrap font-mono leading-relaxed">
                     {structuredData.raw_text}
                   </pre>
                 </div>
+                <div className="px-4 py-2 border-t border-border/50 bg-muted/30 text-xs text-muted-foreground flex justify-between items-center">
+                  <span>{text.length} characters</span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={copyToClipboard}
+                      disabled={!text}
+                      className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Copy to clipboard"
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={downloadText}
+                      disabled={!text}
+                      className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Download as .txt"
+                    >
+                      <Download size={16} />
+                    </button>
+                  </div>
+                </div>
               </details>
+
+              <ExportPanel sources={items} selectedId={selectedId} />
+
+              {corrections.length > 0 && (
+                <button
+                  onClick={exportCorrections}
+                  className="w-full py-3 rounded-xl font-medium border border-border/50 bg-white/60 dark:bg-slate-900/60 text-foreground hover:bg-muted/50 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Download size={18} />
+                  Export Corrections ({corrections.length})
+                </button>
+              )}
             </div>
+          ) : selectedItem?.status === "processing" && selectedItem.partial?.length ? (
+            /* Streaming Results */
+            <PartialResult bills={selectedItem.partial} />
           ) : (
             /* No Results */
             <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 h-full min-h-[500px] flex flex-col overflow-hidden shadow-lg">
@@ -378,25 +1065,6 @@ export default function ImageOCR() {
                   </div>
                   <h3 className="font-semibold text-foreground">Expense Data</h3>
                 </div>
-                
-                <div className="flex items-center gap-1">
-                  <button 
-                    onClick={copyToClipboard}
-                    disabled={!text}
-                    className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Copy to clipboard"
-                  >
-                    <Copy size={18} />
-                  </button>
-                  <button 
-                    onClick={downloadText}
-                    disabled={!text}
-                    className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Download as .txt"
-                  >
-                    <Download size={18} />
-                  </button>
-                </div>
               </div>
 
               <div className="flex-1 p-6 relative overflow-auto">
@@ -408,20 +1076,12 @@ export default function ImageOCR() {
                   </p>
                 </div>
               </div>
-              
-              {text && (
-                <div className="p-3 border-t border-border/50 bg-muted/30 text-xs text-muted-foreground flex justify-between items-center">
-                  <span>{text.length} characters</span>
-                  <span className="flex items-center gap-1.5 text-green-600 dark:text-green-400">
-                    <CheckCircle2 size={12} />
-                    Extraction Complete
-                  </span>
-                </div>
-              )}
             </div>
           )}
         </div>
       </div>
+
+      {items.length > 1 && <BatchResultsTable items={items} onSelect={selectItem} />}
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import { Loader2 } from "lucide-react";
+import type { PartialBill } from "@/lib/providers";
+
+interface PartialResultProps {
+  bills: PartialBill[];
+}
+
+const FIELDS = [
+  { key: "bill_no", label: "Bill Number" },
+  { key: "amount", label: "Amount" },
+  { key: "purpose", label: "Purpose" },
+] as const;
+
+/** Fields of the bills the model has written so far, while the rest streams in. */
+export default function PartialResult({ bills }: PartialResultProps) {
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <Loader2 size={14} className="animate-spin" />
+        Reading receipt...
+      </p>
+
+      {bills.map((bill, index) => (
+        <div
+          key={index}
+          className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-6 shadow-lg space-y-4"
+        >
+          {bills.length > 1 && <p className="text-xs font-semibold text-muted-foreground">Bill {index + 1}</p>}
+          {FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <p className="text-sm font-medium text-muted-foreground mb-1">{label}</p>
+              {bill[key] ? (
+                <p className="text-xl font-bold text-foreground">{bill[key]}</p>
+              ) : (
+                <div className="h-7 w-40 rounded-md bg-muted animate-pulse" />
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { Category } from "@/lib/categories";
+
+interface PurposeBadgeProps {
+  category: Category | null;
+  name: string;
+}
+
+// Spelled out in full so Tailwind can see every class.
+const COLOR_CLASSES: Record<Category["color"], string> = {
+  orange: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+  blue: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+  indigo: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 border-indigo-500/20",
+  red: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+  purple: "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
+  cyan: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400 border-cyan-500/20",
+  gray: "bg-gray-500/10 text-gray-600 dark:text-gray-400 border-gray-500/20",
+  green: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+  amber: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+  pink: "bg-pink-500/10 text-pink-600 dark:text-pink-400 border-pink-500/20",
+  teal: "bg-teal-500/10 text-teal-600 dark:text-teal-400 border-teal-500/20",
+  yellow: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20",
+};
+
+export default function PurposeBadge({ category, name }: PurposeBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-semibold text-sm border ${
+        COLOR_CLASSES[category?.color ?? "gray"]
+      }`}
+    >
+      {category?.icon} {name}
+    </span>
+  );
+}
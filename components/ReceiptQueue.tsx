@@ -0,0 +1,184 @@
+"use client";
+
+import { 
+  Camera,
+  CheckCircle2, 
+  Clock, 
+  FileText, 
+  Loader2, 
+  Plus, 
+  RotateCcw, 
+  Trash2, 
+  X, 
+  XCircle 
+} from "lucide-react";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import { isPdf } from "@/lib/expense";
+import type { ProcessedBill } from "@/lib/postprocess";
+import type { ManualAdjustments } from "@/lib/preprocess";
+import type { PolicyResult } from "@/lib/policy";
+import type { PartialBill } from "@/lib/providers";
+
+export type QueueStatus = "pending" | "processing" | "done" | "failed";
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: QueueStatus;
+  queued: boolean;
+  statusText?: string;
+  progress?: number;
+  bills?: ProcessedBill[];
+  /** The preprocessed image sent for extraction, which field boxes refer to; unset when it is the original. */
+  extractedImage?: { file: File; url: string };
+  /** Bills streamed so far while AI extraction is running. */
+  partial?: PartialBill[];
+  /** Rotate/crop chosen in the preview; applied before extraction. */
+  adjustments?: ManualAdjustments;
+  /** Earlier receipts in history this one appears to repeat. */
+  duplicates?: DuplicateMatch[];
+  /** Department whose categories and policy the bills were extracted with; the default when unset. */
+  department?: string;
+  /** Policy check of the bills, from the server in AI mode; unset for receipts reopened from history. */
+  policy?: PolicyResult;
+  /** Whether any bill needs review or the receipt looks like a duplicate. */
+  needsReview?: boolean;
+  error?: string;
+}
+
+interface ReceiptQueueProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAddMore: () => void;
+  onTakePhoto: () => void;
+  onClear?: () => void;
+}
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  pending: "text-muted-foreground",
+  processing: "text-primary",
+  done: "text-green-600 dark:text-green-400",
+  failed: "text-destructive",
+};
+
+const StatusIcon = ({ status }: { status: QueueStatus }) => {
+  switch (status) {
+    case "processing":
+      return <Loader2 size={16} className="animate-spin" />;
+    case "done":
+      return <CheckCircle2 size={16} />;
+    case "failed":
+      return <XCircle size={16} />;
+    default:
+      return <Clock size={16} />;
+  }
+};
+
+export default function ReceiptQueue({ items, selectedId, onSelect, onRetry, onRemove, onAddMore, onTakePhoto, onClear }: ReceiptQueueProps) {
+  const doneCount = items.filter((item) => item.status === "done").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-border/50 flex items-center justify-between bg-muted/30">
+        <div>
+          <h3 className="font-semibold text-foreground">Receipts ({items.length})</h3>
+          <p className="text-xs text-muted-foreground">
+            {doneCount} done{failedCount > 0 && `, ${failedCount} failed`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onAddMore}
+            className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+            title="Add more receipts"
+          >
+            <Plus size={18} />
+          </button>
+          <button
+            onClick={onTakePhoto}
+            className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+            title="Photograph a receipt"
+          >
+            <Camera size={18} />
+          </button>
+          <button
+            onClick={onClear}
+            disabled={!onClear}
+            className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Clear all"
+          >
+            <Trash2 size={18} />
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-80 overflow-auto divide-y divide-border/50">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            onClick={() => onSelect(item.id)}
+            className={`flex items-center gap-3 p-3 cursor-pointer transition-colors ${
+              item.id === selectedId ? "bg-primary/10" : "hover:bg-muted/30"
+            }`}
+          >
+            {isPdf(item.file.type) ? (
+              <div className="w-10 h-10 rounded-lg bg-red-500/10 text-red-600 dark:text-red-400 flex items-center justify-center shrink-0">
+                <FileText size={18} />
+              </div>
+            ) : (
+              <img src={item.previewUrl} alt="" className="w-10 h-10 rounded-lg object-cover bg-muted shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{item.file.name}</p>
+              <p className={`text-xs truncate ${STATUS_STYLES[item.status]}`}>
+                {item.status === "failed"
+                  ? item.error
+                  : item.status === "processing"
+                    ? `${item.statusText || "Processing..."}${item.progress !== undefined ? ` ${Math.round(item.progress * 100)}%` : ""}`
+                    : item.status === "done"
+                      ? item.needsReview ?? item.bills?.some((bill) => bill.needs_review)
+                        ? "Needs review"
+                        : item.bills && item.bills.length > 1
+                        ? `${item.bills.length} bills`
+                        : `${item.bills?.[0]?.bill_no} · ${item.bills?.[0]?.amount}`
+                      : item.queued ? "Queued" : "Pending"}
+              </p>
+            </div>
+            <span className={STATUS_STYLES[item.status]}>
+              <StatusIcon status={item.status} />
+            </span>
+            {item.status === "failed" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRetry(item.id);
+                }}
+                className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                title="Retry"
+              >
+                <RotateCcw size={14} />
+              </button>
+            )}
+            {item.status !== "processing" && !(item.status === "pending" && item.queued) && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(item.id);
+                }}
+                className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                title="Remove"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, AlertTriangle, Loader2 } from "lucide-react";
+import type { UsageSummary, UsageTotals } from "@/lib/usage";
+
+const RANGES = [1, 7, 30, 90];
+
+const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(6) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+
+interface Loaded {
+  days: number;
+  summary: UsageSummary | null;
+  error: string | null;
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-5 shadow-lg">
+      <p className="text-sm font-medium text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold text-foreground mt-1">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function TotalsTable({ title, label, rows }: { title: string; label: string; rows: [string, UsageTotals][] }) {
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-border/50 bg-muted/30">
+        <h3 className="font-semibold text-foreground">{title}</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-muted-foreground">
+            <tr>
+              <th className="px-4 py-2 font-medium">{label}</th>
+              <th className="px-4 py-2 font-medium">Requests</th>
+              <th className="px-4 py-2 font-medium">Failed</th>
+              <th className="px-4 py-2 font-medium">Input tokens</th>
+              <th className="px-4 py-2 font-medium">Output tokens</th>
+              <th className="px-4 py-2 font-medium">Cost</th>
+              <th className="px-4 py-2 font-medium">Avg latency</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border/50">
+            {rows.map(([key, totals]) => (
+              <tr key={key}>
+                <td className="px-4 py-2 text-foreground">{key}</td>
+                <td className="px-4 py-2 text-foreground">{totals.requests}</td>
+                <td className={`px-4 py-2 ${totals.failed > 0 ? "text-destructive" : "text-muted-foreground"}`}>{totals.failed}</td>
+                <td className="px-4 py-2 text-foreground">{formatTokens(totals.input_tokens)}</td>
+                <td className="px-4 py-2 text-foreground">{formatTokens(totals.output_tokens)}</td>
+                <td className="px-4 py-2 font-semibold text-green-600 dark:text-green-400">{formatUsd(totals.cost_usd)}</td>
+                <td className="px-4 py-2 text-muted-foreground">{totals.avg_latency_ms} ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Extraction cost, token and latency summary from `/api/usage`. */
+export default function UsageDashboard() {
+  const [days, setDays] = useState<number>(7);
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/usage?days=${days}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || "Failed to load usage");
+        setLoaded({ days, summary: body, error: null });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setLoaded({ days, summary: null, error: err instanceof Error ? err.message : "Failed to load usage" });
+      });
+
+    return () => controller.abort();
+  }, [days]);
+
+  const loading = loaded?.days !== days;
+  const summary = loaded?.summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGES.map((range) => (
+          <button
+            key={range}
+            onClick={() => setDays(range)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+              range === days
+                ? "bg-primary text-primary-foreground border-primary"
+                : "bg-white/60 dark:bg-slate-900/60 text-muted-foreground border-border/50 hover:text-foreground"
+            }`}
+          >
+            {range === 1 ? "Today" : `Last ${range} days`}
+          </button>
+        ))}
+        {loading && <Loader2 size={16} className="animate-spin text-muted-foreground" />}
+      </div>
+
+      {loaded?.error && (
+        <div className="p-4 rounded-xl bg-destructive/10 text-destructive border border-destructive/20 flex items-start gap-3">
+          <AlertCircle size={20} className="mt-0.5 shrink-0" />
+          <p className="text-sm font-medium">{loaded.error}</p>
+        </div>
+      )}
+
+      {summary && (
+        <>
+          {summary.budget?.exhausted && (
+            <div className="p-4 rounded-xl bg-red-500/10 text-red-700 dark:text-red-400 border border-red-500/20 flex items-start gap-3">
+              <AlertCircle size={20} className="mt-0.5 shrink-0" />
+              <p className="text-sm font-medium">
+                Today&apos;s budget is used up; extraction is refused until {new Date(summary.budget.resets_at).toLocaleString()}.
+              </p>
+            </div>
+          )}
+
+          {summary.unpriced_models.length > 0 && (
+            <div className="p-4 rounded-xl bg-amber-500/10 text-amber-700 dark:text-amber-400 border border-amber-500/20 flex items-start gap-3">
+              <AlertTriangle size={20} className="mt-0.5 shrink-0" />
+              <p className="text-sm">
+                No price configured for {summary.unpriced_models.join(", ")}; their cost is counted as zero. Add them to
+                config/pricing.json.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Stat label="Requests" value={String(summary.requests)} hint={`${summary.failed} failed · ${summary.cache_hits} from cache`} />
+            <Stat label="Estimated cost" value={formatUsd(summary.cost_usd)} />
+            <Stat
+              label="Tokens"
+              value={formatTokens(summary.input_tokens + summary.output_tokens)}
+              hint={`${formatTokens(summary.input_tokens)} in · ${formatTokens(summary.output_tokens)} out`}
+            />
+            <Stat label="Latency" value={`${summary.avg_latency_ms} ms`} hint={`p95 ${summary.p95_latency_ms} ms`} />
+          </div>
+
+          {summary.budget && (
+            <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-border/50 p-5 shadow-lg space-y-2">
+              <div className="flex justify-between text-sm font-medium">
+                <span className="text-foreground">Daily budget</span>
+                <span className="text-muted-foreground">
+                  {formatUsd(summary.budget.spent_usd)} of {formatUsd(summary.budget.limit_usd)}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${summary.budget.exhausted ? "bg-destructive" : "bg-gradient-to-r from-indigo-600 to-purple-600"}`}
+                  style={{
+                    width: `${summary.budget.limit_usd > 0 ? Math.min(100, (summary.budget.spent_usd / summary.budget.limit_usd) * 100) : 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {summary.requests === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No extractions in this period.</p>
+          ) : (
+            <>
+              <TotalsTable title="By provider" label="Provider" rows={Object.entries(summary.by_provider)} />
+              <TotalsTable title="By day" label="Date" rows={summary.by_day.map(({ date, ...totals }) => [date, totals])} />
+              {Object.keys(summary.outcomes).length > 1 && (
+                <div className="flex flex-wrap gap-2 text-sm">
+                  {Object.entries(summary.outcomes).map(([outcome, count]) => (
+                    <span key={outcome} className="px-3 py-1 rounded-full bg-white/60 dark:bg-black/30 border border-border/50">
+                      {outcome}: <span className="font-semibold">{count}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { normalizeAmount } from "@/lib/amount";
+import type { ExtractedBill } from "@/lib/expense";
+import { validateTotals } from "@/lib/postprocess";
+
+describe("normalizeAmount", () => {
+  const cases: [string, number, string][] = [
+    ["₹1,234.50", 1234.5, "INR"],
+    ["Rs. 1234/-", 1234, "INR"],
+    ["EUR 1.234,56", 1234.56, "EUR"],
+    ["12,50 €", 12.5, "EUR"],
+    ["₹1,23,456.50", 123456.5, "INR"],
+    ["$ 1 234.99", 1234.99, "USD"],
+    ["２，５００円", 2500, "JPY"],
+    ["2.5 lakh rupees", 250000, "INR"],
+    ["£12.40", 12.4, "GBP"],
+  ];
+
+  for (const [input, value, currency] of cases) {
+    test(`reads "${input}"`, () => {
+      assert.deepEqual(normalizeAmount(input), { value, currency });
+    });
+  }
+
+  test("treats the model's '0' and text without digits as no amount", () => {
+    assert.equal(normalizeAmount("0"), null);
+    assert.equal(normalizeAmount("N/A"), null);
+  });
+
+  test("reads a lone dot as grouping or decimal by the receipt's locale", () => {
+    assert.equal(normalizeAmount("1.234", "EUR", "de-DE")?.value, 1234);
+    assert.equal(normalizeAmount("1.234", "USD", "en-US")?.value, 1.23);
+  });
+
+  test("ignores currency names inside other words", () => {
+    assert.equal(normalizeAmount("Compound total 12.00", "USD")?.currency, "USD");
+    assert.equal(normalizeAmount("Neuros Cafe 12.00", "INR")?.currency, "INR");
+  });
+
+  test("uses the fallback currency when none is printed", () => {
+    assert.deepEqual(normalizeAmount("450.00", "USD"), { value: 450, currency: "USD" });
+  });
+});
+
+const bill = (overrides: Partial<ExtractedBill>): ExtractedBill => ({
+  bill_no: "B-1",
+  amount: "₹1,180",
+  purpose: "Food",
+  raw_text: "",
+  date: "2024-03-14",
+  merchant_name: "Cafe Coffee Day",
+  merchant_gstin: null,
+  subtotal: 1000,
+  taxes: { cgst: 90, sgst: 90, igst: null, other: null },
+  tip: null,
+  currency: "INR",
+  amount_value: 1180,
+  payment_method: null,
+  line_items: [],
+  confidence: { bill_no: 1, amount: 1, purpose: 1, date: 1, merchant_name: 1 },
+  page: 1,
+  ...overrides,
+});
+
+describe("validateTotals", () => {
+  test("accepts a bill whose subtotal and taxes add up to the total", () => {
+    assert.deepEqual(validateTotals(bill({}), 1180), []);
+  });
+
+  test("allows a round-off of up to one unit", () => {
+    assert.deepEqual(validateTotals(bill({}), 1180.6), []);
+  });
+
+  test("flags a total that differs from subtotal, taxes and tip", () => {
+    const warnings = validateTotals(bill({ tip: 50 }), 1180);
+
+    assert.deepEqual(warnings, ["Subtotal, taxes and tip add up to 1230.00 but the total is 1180.00"]);
+  });
+
+  test("flags line items that don't match their quantity and price, or the subtotal", () => {
+    const warnings = validateTotals(
+      bill({ line_items: [{ description: "Latte", quantity: 2, unit_price: 250, total: 400 }] }),
+      1180
+    );
+
+    assert.deepEqual(warnings, [
+      'Line item "Latte": 2 × 250.00 is not 400.00',
+      "Line items add up to 400.00 but the subtotal is 1000.00",
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { localeConventions, toAsciiDigits } from "@/lib/locale";
+
+export interface NormalizedAmount {
+  value: number;
+  currency: string;
+}
+
+const CURRENCY_WORDS: [RegExp, string][] = [
+  [/₹|\brs\b\.?|\binr\b|\brupees?\b|रु|रुपये/i, "INR"],
+  [/৳|\bbdt\b|টাকা/i, "BDT"],
+  [/€|\beur\b|\beuros?\b/i, "EUR"],
+  [/£|\bgbp\b|\bpounds?\b/i, "GBP"],
+  [/¥|円|\bjpy\b|\byen\b/i, "JPY"],
+  [/\bus\$|\$|\busd\b|\bdollars?\b/i, "USD"],
+];
+
+const MULTIPLIERS: [RegExp, number][] = [
+  [/\b(?:crores?|cr)\b/i, 10_000_000],
+  [/\b(?:lakhs?|lacs?)\b/i, 100_000],
+];
+
+// Currencies whose receipts commonly use "." for grouping and "," for decimals.
+const DECIMAL_COMMA_CURRENCIES = new Set(["EUR"]);
+
+export const detectCurrency = (raw: string): string | null =>
+  CURRENCY_WORDS.find(([pattern]) => pattern.test(raw))?.[1] ?? null;
+
+/**
+ * Parses the digits of an amount, working out which of "," and "." is the
+ * decimal separator. Handles Indian lakh grouping (1,23,456.50), Western
+ * grouping (123,456.50) and European decimals (1.234,50 / 12,50).
+ */
+export const parseNumber = (digits: string, decimalComma: boolean): number | null => {
+  const cleaned = digits.replace(/\s+/g, "");
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let normalized: string;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, "").replace(",", ".")
+      : cleaned.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    const isDecimal = cleaned.indexOf(",") === lastComma && /,\d{1,2}$/.test(cleaned);
+    normalized = isDecimal ? cleaned.replace(",", ".") : cleaned.replace(/,/g, "");
+  } else if (lastDot >= 0) {
+    const isGrouping = cleaned.indexOf(".") !== lastDot || (decimalComma && /^\d{1,3}\.\d{3}$/.test(cleaned));
+    normalized = isGrouping ? cleaned.replace(/\./g, "") : cleaned;
+  } else {
+    normalized = cleaned;
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Turns a free-form amount such as "₹1,234.50", "Rs. 1234/-", "EUR 1.234,56",
+ * "２，５００円" or "2.5 lakh rupees" into a number and ISO currency code. The
+ * receipt's locale, when known, decides whether "1.234" is a thousand or a
+ * fraction. Returns null when no amount is present, including the "0" the
+ * model uses for "not found".
+ */
+export function normalizeAmount(input: string, fallbackCurrency = "INR", locale?: string): NormalizedAmount | null {
+  const raw = toAsciiDigits(input);
+  const currency = detectCurrency(raw) ?? fallbackCurrency;
+  // Digits with separators; a space only counts as grouping when followed by exactly three digits.
+  const match = raw.replace(/\/-/g, "").match(/\d(?:[\d.,]|\s(?=\d{3}(?!\d)))*/);
+  if (!match) return null;
+
+  let value = parseNumber(match[0].replace(/[.,]+$/, ""), locale ? localeConventions(locale).decimalComma : DECIMAL_COMMA_CURRENCIES.has(currency));
+  if (value === null || value === 0) return null;
+
+  const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(raw));
+  if (multiplier) {
+    value *= multiplier[1];
+  }
+
+  return { value: Math.round(value * 100) / 100, currency };
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+export type ApiErrorCode =
+  | "invalid_request"
+  | "payload_too_large"
+  | "unsupported_media_type"
+  | "unprocessable_document"
+  | "unauthorized"
+  | "invalid_api_key"
+  | "rate_limited"
+  | "budget_exceeded"
+  | "not_found"
+  | "idempotency_conflict"
+  | "queue_full"
+  | "timeout"
+  | "cancelled"
+  | "provider_unavailable"
+  | "extraction_failed"
+  | "internal_error";
+
+/**
+ * An error with the HTTP status and machine-readable code the API responds
+ * with. `extra` carries optional fields such as `details` or `instructions`.
+ */
+export class ApiError extends Error {
+  /** Sent with the error response, e.g. `Retry-After`. */
+  headers: Record<string, string> = {};
+
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The body every API error shares: `{ error, code, ...extra }`. */
+export const errorBody = (error: ApiError) => ({ error: error.message, code: error.code, ...error.extra });
+
+export const errorResponse = (error: ApiError) =>
+  NextResponse.json(errorBody(error), { status: error.status, headers: error.headers });
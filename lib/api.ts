@@ -0,0 +1,123 @@
+import type { ExtractionResponse, StageEvent } from "@/lib/extraction";
+import type { PartialBill } from "@/lib/providers";
+import { readEvents } from "@/lib/sse";
+
+export class ExtractionRequestError extends Error {
+  constructor(message: string, public instructions?: string) {
+    super(message);
+    this.name = "ExtractionRequestError";
+  }
+}
+
+const CLIENT_ID_KEY = "expense-client-id";
+
+// Sent as X-Client-Id so the server keeps this browser's duplicates and jobs apart from other anonymous users'.
+function browserClientId(): string {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+// How often a rate-limited upload waits out `Retry-After` and tries again, and the longest
+// wait worth sitting through (a spent daily budget asks to wait until midnight).
+const RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_SECONDS = 60;
+
+const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+async function responseError(response: Response): Promise<ExtractionRequestError> {
+  const body = await response.text();
+  try {
+    const { error, instructions } = JSON.parse(body) as { error?: string; instructions?: string };
+    return new ExtractionRequestError(error || "Failed to extract text", instructions);
+  } catch {
+    // E.g. a proxy's HTML error page.
+    return new ExtractionRequestError(
+      response.status === 413 ? "The file is too large to upload" : `Failed to extract text (HTTP ${response.status})`
+    );
+  }
+}
+
+export interface ExtractionProgress {
+  signal?: AbortSignal;
+  /** Stays the same when the same file is retried, so the server doesn't report it as its own duplicate. */
+  uploadId?: string;
+  /** Whose categories and policy apply; the server's default when unset. */
+  department?: string;
+  /** Lets the server spot other photos of the same receipt; see `perceptualHash`. */
+  perceptualHash?: string | null;
+  /** Translate merchant names and line items into this language; as printed when unset. */
+  outputLanguage?: string;
+  onStage?: (event: StageEvent) => void;
+  /** Bills as the model writes them; fields fill in over successive calls. */
+  onPartial?: (bills: PartialBill[]) => void;
+}
+
+/**
+ * Uploads one receipt or PDF to `/api/extract` as multipart form data and returns the server's response:
+ * every bill found in it, with duplicate and policy checks.
+ * Progress streams back as server-sent events. Aborting `signal` cancels the request, and the server
+ * stops calling the provider. A rate-limited upload waits as long as the server asks and tries again.
+ */
+export async function requestExtraction(
+  file: File,
+  { signal, uploadId, department, perceptualHash, outputLanguage, onStage, onPartial }: ExtractionProgress = {}
+): Promise<ExtractionResponse> {
+  const body = new FormData();
+  body.append("file", file);
+  if (department) body.append("department", department);
+  if (perceptualHash) body.append("perceptual_hash", perceptualHash);
+  if (uploadId) body.append("upload_id", uploadId);
+  if (outputLanguage) body.append("output_language", outputLanguage);
+
+  let response: Response;
+  for (let attempt = 0; ; attempt++) {
+    response = await fetch("/api/extract", {
+      method: "POST",
+      headers: { Accept: "text/event-stream", "X-Client-Id": browserClientId() },
+      body,
+      signal,
+    });
+    const retryAfter = Number(response.headers.get("retry-after"));
+    if (response.status !== 429 || attempt >= RATE_LIMIT_RETRIES || !(retryAfter > 0 && retryAfter <= MAX_RATE_LIMIT_WAIT_SECONDS)) break;
+    await waitFor(retryAfter * 1000, signal);
+  }
+
+  // Requests rejected before extraction starts get a plain JSON error, unless something in between answered.
+  if (!response.ok || !response.body) {
+    throw await responseError(response);
+  }
+
+  for await (const { event, data } of readEvents(response.body)) {
+    switch (event) {
+      case "stage":
+        onStage?.(data as StageEvent);
+        break;
+      case "partial":
+        onPartial?.((data as { bills: PartialBill[] }).bills);
+        break;
+      case "result":
+        return data as ExtractionResponse;
+      case "error": {
+        const { error, instructions } = data as { error?: string; instructions?: string };
+        throw new ExtractionRequestError(error || "Failed to extract text", instructions);
+      }
+    }
+  }
+
+  throw new ExtractionRequestError("The connection closed before extraction finished");
+}
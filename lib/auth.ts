@@ -0,0 +1,125 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { ApiError } from "@/lib/api-error";
+
+/** Who is calling: an API key holder, or an anonymous caller. */
+export interface ApiClient {
+  /** Owner of the caller's jobs, idempotency keys and duplicate fingerprints, e.g. "key:reporting" or "anon:<client id>". */
+  id: string;
+  /** Rate-limit bucket key, e.g. "key:reporting" or "ip:203.0.113.7"; null when the caller can't be told apart from others. */
+  bucket: string | null;
+  kind: "key" | "anonymous";
+  name: string;
+}
+
+interface ApiKey {
+  name: string;
+  digest: Buffer;
+}
+
+// A random id an anonymous caller (such as the app's own UI) keeps across requests, sent as X-Client-Id.
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * API_KEYS is a comma-separated list of `name:key` pairs (a bare key is named by
+ * its position), e.g. `reporting:sk_live_abc,batch:sk_live_def`.
+ */
+function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { name: entry.slice(0, separator), digest: digest(entry.slice(separator + 1)) }
+        : { name: `key-${index + 1}`, digest: digest(entry) };
+    });
+}
+
+const API_KEYS = parseApiKeys(process.env.API_KEYS);
+
+/** Whether requests without an API key are refused (API_AUTH=required). */
+export const isAuthRequired = () => process.env.API_AUTH === "required";
+
+/** The key from `Authorization: Bearer <key>` or `X-API-Key: <key>`, if any. */
+function presentedKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization) {
+    const [scheme, token] = authorization.split(/\s+/, 2);
+    return scheme.toLowerCase() === "bearer" && token ? token : "";
+  }
+  return request.headers.get("x-api-key");
+}
+
+/** Proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_COUNT, default none). */
+const trustedProxyCount = () => {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+};
+
+/**
+ * The caller's IP as recorded by our own proxies. Each one appends the address
+ * it received the request from, so with N trusted proxies the client is the
+ * Nth entry from the right; anything further left was sent by the client and
+ * can be forged. Without trusted proxies the header isn't read at all, and the
+ * IP is unknown: route handlers can't see the socket address.
+ */
+function clientIp(request: Request): string | null {
+  const proxies = trustedProxyCount();
+  if (proxies === 0) return null;
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - proxies)] || null;
+}
+
+/**
+ * An anonymous caller is rate limited by IP when it is known, and not at all
+ * otherwise, rather than sharing one bucket with everyone else. Its data is
+ * scoped to its X-Client-Id, else its IP, else to this request alone.
+ */
+function anonymousClient(request: Request): ApiClient {
+  const ip = clientIp(request);
+  const clientId = request.headers.get("x-client-id");
+  let id = `anon:${randomUUID()}`;
+  if (clientId && CLIENT_ID_PATTERN.test(clientId)) id = `anon:${clientId}`;
+  else if (ip) id = `ip:${ip}`;
+
+  return { id, bucket: ip ? `ip:${ip}` : null, kind: "anonymous", name: ip ?? "anonymous" };
+}
+
+function unauthorized(message: string): ApiError {
+  const error = new ApiError(401, "unauthorized", message, {
+    instructions: "Send an API key as `Authorization: Bearer <key>` or `X-API-Key: <key>`",
+  });
+  error.headers["WWW-Authenticate"] = 'Bearer realm="api"';
+  return error;
+}
+
+/**
+ * Identifies the caller. A presented key must be valid; requests without one
+ * are anonymous unless API_AUTH=required.
+ */
+export function authenticate(request: Request): ApiClient {
+  const key = presentedKey(request);
+
+  if (key === null) {
+    if (isAuthRequired()) throw unauthorized("Authentication required");
+    return anonymousClient(request);
+  }
+
+  const presented = digest(key);
+  // Compare against every key so timing doesn't reveal how many there are or which one matched.
+  const match = API_KEYS.reduce<ApiKey | null>(
+    (found, apiKey) => (timingSafeEqual(apiKey.digest, presented) ? apiKey : found),
+    null
+  );
+  if (!key || !match) throw unauthorized("Invalid credentials");
+
+  const id = `key:${match.name}`;
+  return { id, bucket: id, kind: "key", name: match.name };
+}
@@ -0,0 +1,218 @@
+import type { CropRect } from "@/lib/preprocess";
+
+/** A grayscale image: one brightness value (0–255) per pixel, row by row. */
+export interface GrayImage {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}
+
+export type CaptureIssue = "dark" | "glare" | "blur";
+
+export interface FrameQuality {
+  /** Mean brightness, 0–255. */
+  brightness: number;
+  /** Share of pixels blown out to white. */
+  glare: number;
+  /** Variance of the Laplacian; low values mean few sharp edges. */
+  sharpness: number;
+  issues: CaptureIssue[];
+}
+
+export const CAPTURE_ISSUE_MESSAGES: Record<CaptureIssue, string> = {
+  dark: "Too dark: move to better light",
+  glare: "Glare on the receipt: tilt it away from the light",
+  blur: "Blurry: hold the phone steady",
+};
+
+// Tuned on frames scaled to ANALYSIS_WIDTH; change them together.
+export const ANALYSIS_WIDTH = 240;
+const DARK_BELOW = 70;
+const GLARE_LEVEL = 250;
+const GLARE_SHARE = 0.04;
+const BLUR_BELOW = 60;
+
+/** Brightness, glare and sharpness of the part of the frame inside the guide. */
+export function assessFrame({ data, width, height }: GrayImage): FrameQuality {
+  let sum = 0;
+  let blown = 0;
+  for (let i = 0; i < width * height; i++) {
+    sum += data[i];
+    if (data[i] >= GLARE_LEVEL) blown++;
+  }
+
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      laplacianSum += value;
+      laplacianSquares += value * value;
+      count++;
+    }
+  }
+
+  const pixels = Math.max(1, width * height);
+  const brightness = sum / pixels;
+  const glare = blown / pixels;
+  const mean = count > 0 ? laplacianSum / count : 0;
+  const sharpness = count > 0 ? laplacianSquares / count - mean * mean : 0;
+
+  const issues: CaptureIssue[] = [];
+  if (brightness < DARK_BELOW) issues.push("dark");
+  if (glare > GLARE_SHARE) issues.push("glare");
+  // A dark frame has little contrast anyway; don't report it twice.
+  if (sharpness < BLUR_BELOW && brightness >= DARK_BELOW) issues.push("blur");
+
+  return { brightness, glare, sharpness, issues };
+}
+
+/**
+ * The receipt outline shown over the camera view, as fractions of the frame:
+ * a tall rectangle, centred, about as wide as a till roll relative to its height.
+ */
+export function guideRect(frameWidth: number, frameHeight: number): CropRect {
+  const height = frameHeight * 0.9;
+  const width = Math.min(frameWidth * 0.9, height * 0.6);
+  return {
+    x: (frameWidth - width) / 2 / frameWidth,
+    y: 0.05,
+    width: width / frameWidth,
+    height: height / frameHeight,
+  };
+}
+
+// Overlaps that differ more than this on average are treated as no overlap at all.
+const MAX_OVERLAP_DIFFERENCE = 20;
+const MIN_OVERLAP_VARIANCE = 100;
+
+/**
+ * Mean absolute difference between the bottom `rows` rows of `top` and the top
+ * `rows` rows of `bottom`, or null when that strip of `top` is too plain to match on.
+ */
+function overlapDifference(top: GrayImage, bottom: GrayImage, rows: number): number | null {
+  const offset = (top.height - rows) * top.width;
+  const pixels = rows * top.width;
+  let sum = 0;
+  let topSum = 0;
+  let topSquares = 0;
+  for (let i = 0; i < pixels; i++) {
+    const value = top.data[offset + i];
+    sum += Math.abs(value - bottom.data[i]);
+    topSum += value;
+    topSquares += value * value;
+  }
+
+  // Blank paper matches blank paper anywhere; only strips with printing say where the shots meet.
+  const variance = topSquares / pixels - (topSum / pixels) ** 2;
+  return variance < MIN_OVERLAP_VARIANCE ? null : sum / pixels;
+}
+
+/**
+ * How many rows at the top of `bottom` repeat the end of `top`, for stitching
+ * consecutive shots of a long receipt. Both images must have the same width.
+ * Returns 0 when no overlap matches well enough, so the shots are simply stacked.
+ */
+export function findOverlap(top: GrayImage, bottom: GrayImage, { minShare = 0.05, maxShare = 0.5 } = {}): number {
+  if (top.width !== bottom.width) throw new Error("Shots must have the same width to be stitched");
+
+  const minRows = Math.max(2, Math.round(Math.min(top.height, bottom.height) * minShare));
+  const maxRows = Math.round(Math.min(top.height, bottom.height) * maxShare);
+  let best = 0;
+  let bestDifference = MAX_OVERLAP_DIFFERENCE;
+
+  for (let rows = minRows; rows <= maxRows; rows++) {
+    const difference = overlapDifference(top, bottom, rows);
+    if (difference !== null && difference < bestDifference) {
+      best = rows;
+      bestDifference = difference;
+    }
+  }
+  return best;
+}
+
+const JPEG_QUALITY = 0.9;
+
+// Comparison copies are this wide; enough to line up rows of text.
+const STITCH_ANALYSIS_WIDTH = 128;
+
+// Browsers refuse canvases much taller than this.
+const MAX_STITCHED_HEIGHT = 12000;
+
+/** Grayscale copy of a canvas, scaled to `width` pixels wide. */
+export function grayscale(source: HTMLCanvasElement | HTMLVideoElement, width: number, crop?: CropRect): GrayImage {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  const region = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sx = region.x * sourceWidth;
+  const sy = region.y * sourceHeight;
+  const sw = Math.max(1, region.width * sourceWidth);
+  const sh = Math.max(1, region.height * sourceHeight);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((sh / sw) * width));
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not available in this browser");
+
+  context.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width: canvas.width, height: canvas.height };
+}
+
+/** Copies the guide region of the current video frame into a canvas at full resolution. */
+export function captureFrame(video: HTMLVideoElement, guide: CropRect): HTMLCanvasElement {
+  const sx = Math.round(guide.x * video.videoWidth);
+  const sy = Math.round(guide.y * video.videoHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(guide.width * video.videoWidth));
+  canvas.height = Math.max(1, Math.round(guide.height * video.videoHeight));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available in this browser");
+
+  context.drawImage(video, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Joins shots of a long receipt, top to bottom, into one JPEG. Each shot is
+ * scaled to the width of the first and the rows it repeats from the shot above
+ * are dropped.
+ */
+export async function stitchShots(shots: HTMLCanvasElement[], name: string): Promise<File> {
+  if (shots.length === 0) throw new Error("Take at least one photo first");
+
+  const width = shots[0].width;
+  const heights = shots.map((shot) => Math.round((shot.height / shot.width) * width));
+  const samples = shots.map((shot) => grayscale(shot, STITCH_ANALYSIS_WIDTH));
+  const skips = shots.map((_, i) =>
+    i === 0 ? 0 : Math.round((findOverlap(samples[i - 1], samples[i]) / samples[i].height) * heights[i])
+  );
+
+  const total = heights.reduce((sum, height, i) => sum + height - skips[i], 0);
+  const scale = Math.min(1, MAX_STITCHED_HEIGHT / total);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(total * scale));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available in this browser");
+
+  let y = 0;
+  shots.forEach((shot, i) => {
+    const skipSource = (skips[i] / heights[i]) * shot.height;
+    const drawn = heights[i] - skips[i];
+    context.drawImage(shot, 0, skipSource, shot.width, shot.height - skipSource, 0, y * scale, canvas.width, drawn * scale);
+    y += drawn;
+  });
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob) throw new Error("Couldn't encode the captured photo");
+  return new File([blob], name, { type: "image/jpeg" });
+}
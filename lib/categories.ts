@@ -0,0 +1,85 @@
+import { z } from "zod";
+import categoryConfig from "@/config/categories.json";
+
+/** Colors the UI has badge styles for; see `components/PurposeBadge.tsx`. */
+export const CATEGORY_COLORS = [
+  "orange", "blue", "indigo", "red", "purple", "cyan", "gray", "green", "amber", "pink", "teal", "yellow",
+] as const;
+
+export const categorySchema = z.object({
+  name: z.string().min(1),
+  icon: z.string(),
+  color: z.enum(CATEGORY_COLORS),
+  gl_code: z.string().nullable().default(null),
+  /** Words in the receipt text that suggest this category; used to fill in a fallback classification. */
+  keywords: z.array(z.string()).default([]),
+  /** Merchant names that always mean this category; these override the model. */
+  merchants: z.array(z.string()).default([]),
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+export const categorySetSchema = z
+  .object({
+    fallback: z.string(),
+    categories: z.array(categorySchema).min(1),
+  })
+  .refine((set) => set.categories.some((category) => category.name === set.fallback), {
+    message: "fallback must name one of the categories",
+  });
+
+export type CategorySet = z.infer<typeof categorySetSchema>;
+
+const CATEGORY_SETS: Record<string, CategorySet> = z.record(z.string(), categorySetSchema).parse(categoryConfig);
+
+export const DEPARTMENTS = Object.keys(CATEGORY_SETS);
+
+export const DEFAULT_DEPARTMENT = process.env.NEXT_PUBLIC_EXPENSE_DEPARTMENT || "default";
+
+export const isDepartment = (department: string) => Object.hasOwn(CATEGORY_SETS, department);
+
+/** Category list for a department (config/categories.json), falling back to the configured default. */
+export function getCategorySet(department = DEFAULT_DEPARTMENT): CategorySet {
+  if (!isDepartment(department)) {
+    throw new Error(`Unknown department "${department}". Expected one of: ${DEPARTMENTS.join(", ")}`);
+  }
+  return CATEGORY_SETS[department];
+}
+
+export const categoryNames = (set: CategorySet) => set.categories.map((category) => category.name);
+
+export const findCategory = (set: CategorySet, name: string) =>
+  set.categories.find((category) => category.name === name) ?? null;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const containsWord = (haystack: string, word: string) =>
+  new RegExp(`\\b${escapeRegExp(word.toLowerCase())}\\b`).test(haystack);
+
+/** Best keyword/merchant match for the text, or the set's fallback when nothing matches. */
+export function classifyByKeywords(text: string, set: CategorySet): string {
+  const haystack = text.toLowerCase();
+  let best = set.fallback;
+  let bestScore = 0;
+
+  for (const category of set.categories) {
+    const score = [...category.keywords, ...category.merchants].filter((word) => containsWord(haystack, word)).length;
+    if (score > bestScore) {
+      best = category.name;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/** Category whose merchant list matches the merchant name, if any. */
+export function matchMerchant(merchantName: string | null, set: CategorySet): Category | null {
+  if (!merchantName) return null;
+  const haystack = merchantName.toLowerCase();
+  return set.categories.find((category) => category.merchants.some((merchant) => containsWord(haystack, merchant))) ?? null;
+}
+
+/** Category list for the system prompt, e.g. "Conveyance/taxi/uber, Food/restaurant/zomato, Other". */
+export const describeCategories = (set: CategorySet) =>
+  set.categories.map((category) => [category.name, ...category.keywords, ...category.merchants].join("/")).join(", ");
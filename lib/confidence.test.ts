@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getCategorySet } from "@/lib/categories";
+import { assessConfidence } from "@/lib/confidence";
+import type { ExtractedBill } from "@/lib/expense";
+
+const categories = getCategorySet("default");
+
+const bill = (overrides: Partial<ExtractedBill>): ExtractedBill => ({
+  bill_no: "INV-2041",
+  amount: "₹1,180.00",
+  purpose: "Food",
+  raw_text: "Cafe Coffee Day\nInvoice INV-2041\nDate 14/03/24\nRestaurant bill\nTotal Rs 1,180.00",
+  date: "2024-03-14",
+  merchant_name: "Cafe Coffee Day",
+  merchant_gstin: null,
+  subtotal: null,
+  taxes: { cgst: null, sgst: null, igst: null, other: null },
+  tip: null,
+  currency: "INR",
+  amount_value: 1180,
+  payment_method: null,
+  line_items: [],
+  confidence: { bill_no: 0.95, amount: 0.95, purpose: 0.9, date: 0.9, merchant_name: 0.9 },
+  page: 1,
+  ...overrides,
+});
+
+describe("assessConfidence", () => {
+  test("keeps the extractor's scores when the raw text backs every field", () => {
+    const assessment = assessConfidence(bill({}), [], categories);
+
+    assert.deepEqual(assessment.confidence, bill({}).confidence);
+    assert.equal(assessment.needs_review, false);
+    assert.deepEqual(assessment.review_reasons, []);
+  });
+
+  test("caps a confident value that the raw text doesn't contain", () => {
+    const assessment = assessConfidence(bill({ bill_no: "INV-9999" }), [], categories);
+
+    assert.equal(assessment.confidence.bill_no, 0.5);
+    assert.deepEqual(assessment.review_reasons, ["Bill number confidence is 50%"]);
+  });
+
+  test("caps a category the keywords disagree with", () => {
+    const assessment = assessConfidence(bill({ purpose: "Hotel" }), [], categories);
+
+    assert.equal(assessment.confidence.purpose, 0.5);
+    assert.equal(assessment.needs_review, true);
+  });
+
+  test("scores missing fields as zero and says they weren't found", () => {
+    const assessment = assessConfidence(bill({ bill_no: "N/A", amount: "0", amount_value: null }), [], categories);
+
+    assert.equal(assessment.confidence.bill_no, 0);
+    assert.equal(assessment.confidence.amount, 0);
+    assert.deepEqual(assessment.review_reasons, ["Bill number not found", "Amount not found"]);
+  });
+
+  test("doesn't hold low date or merchant scores against the bill", () => {
+    const assessment = assessConfidence(bill({ merchant_name: null, date: null }), [], categories);
+
+    assert.equal(assessment.confidence.merchant_name, 0);
+    assert.equal(assessment.needs_review, false);
+  });
+
+  test("fully trusts fields a person corrected", () => {
+    const assessment = assessConfidence(bill({ bill_no: "INV-9999" }), [], categories, ["bill_no"]);
+
+    assert.equal(assessment.confidence.bill_no, 1);
+    assert.equal(assessment.needs_review, false);
+  });
+
+  test("flags a bill whose amount checks failed", () => {
+    const assessment = assessConfidence(bill({}), ["Amount mismatch", "Subtotal mismatch"], categories);
+
+    assert.deepEqual(assessment.review_reasons, ["2 amount checks failed"]);
+  });
+
+  test("skips the text checks when there is no raw text", () => {
+    const assessment = assessConfidence(bill({ raw_text: "", bill_no: "INV-9999" }), [], categories);
+
+    assert.equal(assessment.confidence.bill_no, 0.95);
+  });
+});
@@ -0,0 +1,108 @@
+import { classifyByKeywords, type CategorySet } from "@/lib/categories";
+import { CONFIDENCE_FIELDS, type ConfidenceField, type ExtractedBill, type FieldConfidence } from "@/lib/expense";
+
+/** Fields below this confidence are flagged for review. */
+export const REVIEW_THRESHOLD = 0.7;
+
+// Cap applied when a value cannot be found in the document's own text.
+const DISAGREEMENT_CAP = 0.5;
+
+const FIELD_LABELS: Record<keyof FieldConfidence, string> = {
+  bill_no: "Bill number",
+  amount: "Amount",
+  purpose: "Purpose",
+  date: "Date",
+  merchant_name: "Merchant",
+};
+
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isMissing = (bill: ExtractedBill, field: keyof FieldConfidence) => {
+  switch (field) {
+    case "bill_no":
+      return bill.bill_no === "N/A" || bill.bill_no.trim() === "";
+    case "amount":
+      return bill.amount_value === null && (bill.amount === "0" || bill.amount.trim() === "");
+    case "purpose":
+      return false;
+    default:
+      return !bill[field];
+  }
+};
+
+/**
+ * Whether the value is backed by the raw text. Returns null when there is no
+ * raw text to compare against or the field can't be checked literally.
+ */
+const agreesWithText = (bill: ExtractedBill, field: keyof FieldConfidence, categories: CategorySet): boolean | null => {
+  const text = compact(bill.raw_text);
+  if (!text) return null;
+
+  switch (field) {
+    case "bill_no":
+      return text.includes(compact(bill.bill_no));
+    case "amount": {
+      const digits = bill.amount.replace(/\D/g, "").replace(/^0+/, "");
+      return digits ? bill.raw_text.replace(/\D/g, "").includes(digits) : null;
+    }
+    case "purpose": {
+      // The keyword classifier only knows obvious cases; treat its fallback as no opinion.
+      const guess = classifyByKeywords(bill.raw_text, categories);
+      return guess === categories.fallback ? null : guess === bill.purpose;
+    }
+    case "merchant_name":
+      return bill.merchant_name ? text.includes(compact(bill.merchant_name)) : null;
+    case "date": {
+      if (!bill.date) return null;
+      const [year, month, day] = bill.date.split("-");
+      return text.includes(String(+day)) && text.includes(String(+month)) && text.includes(year.slice(2));
+    }
+  }
+};
+
+export interface ConfidenceAssessment {
+  confidence: FieldConfidence;
+  needs_review: boolean;
+  review_reasons: string[];
+}
+
+/**
+ * Combines the extractor's self-reported confidence with agreement checks
+ * against `raw_text`, and decides whether a person should look at the bill.
+ * Fields a person has already corrected (`verified`) are fully trusted.
+ */
+export function assessConfidence(
+  bill: ExtractedBill,
+  warnings: string[],
+  categories: CategorySet,
+  verified: ConfidenceField[] = []
+): ConfidenceAssessment {
+  const confidence = { ...bill.confidence };
+  const reasons: string[] = [];
+
+  for (const field of CONFIDENCE_FIELDS) {
+    if (verified.includes(field)) {
+      confidence[field] = 1;
+    } else if (isMissing(bill, field)) {
+      confidence[field] = 0;
+    } else if (agreesWithText(bill, field, categories) === false) {
+      confidence[field] = Math.min(confidence[field], DISAGREEMENT_CAP);
+    }
+  }
+
+  for (const field of ["bill_no", "amount", "purpose"] as const) {
+    if (confidence[field] < REVIEW_THRESHOLD) {
+      reasons.push(
+        isMissing(bill, field) && !verified.includes(field)
+          ? `${FIELD_LABELS[field]} not found`
+          : `${FIELD_LABELS[field]} confidence is ${Math.round(confidence[field] * 100)}%`
+      );
+    }
+  }
+
+  if (warnings.length > 0) {
+    reasons.push(`${warnings.length} amount check${warnings.length === 1 ? "" : "s"} failed`);
+  }
+
+  return { confidence, needs_review: reasons.length > 0, review_reasons: reasons };
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getCategorySet } from "@/lib/categories";
+import { applyCorrection, createCorrection, validateField, type CorrectionRecord } from "@/lib/corrections";
+import type { ExtractedBill } from "@/lib/expense";
+import { postProcessBill } from "@/lib/postprocess";
+
+const categories = getCategorySet("default");
+
+const extracted: ExtractedBill = {
+  bill_no: "N/A",
+  amount: "0",
+  purpose: "Other",
+  raw_text: "Uber trip\nTotal ₹450.00",
+  date: "2024-03-14",
+  merchant_name: "Uber",
+  merchant_gstin: null,
+  subtotal: null,
+  taxes: { cgst: null, sgst: null, igst: null, other: null },
+  tip: null,
+  currency: "INR",
+  amount_value: null,
+  payment_method: null,
+  line_items: [],
+  confidence: { bill_no: 0, amount: 0, purpose: 0.9, date: 0.9, merchant_name: 0.9 },
+  page: 1,
+};
+
+const processed = postProcessBill(extracted, { categories });
+
+describe("validateField", () => {
+  test("rejects an empty or overlong bill number", () => {
+    assert.match(validateField("bill_no", "  ", categories) ?? "", /can't be empty/);
+    assert.match(validateField("bill_no", "X".repeat(65), categories) ?? "", /too long/);
+    assert.equal(validateField("bill_no", " INV-1 ", categories), null);
+  });
+
+  test("accepts only amounts that can be read", () => {
+    assert.equal(validateField("amount", "Rs. 450/-", categories), null);
+    assert.notEqual(validateField("amount", "four fifty", categories), null);
+    assert.notEqual(validateField("amount", "0", categories), null);
+  });
+
+  test("accepts only the department's categories", () => {
+    assert.equal(validateField("purpose", "Conveyance", categories), null);
+    assert.notEqual(validateField("purpose", "Stay", categories), null);
+  });
+});
+
+describe("applyCorrection", () => {
+  test("re-reads a corrected amount and clears the review flag it caused", () => {
+    const withBillNo = applyCorrection(processed, "bill_no", "T-77", categories);
+    const corrected = applyCorrection(withBillNo, "amount", "₹450.00", categories);
+
+    assert.equal(processed.needs_review, true);
+    assert.equal(corrected.amount_value, 450);
+    assert.deepEqual(corrected.verified_fields, ["bill_no", "amount"]);
+    assert.equal(corrected.confidence.amount, 1);
+    assert.equal(corrected.needs_review, false);
+  });
+
+  test("keeps a category picked by hand over the merchant rule", () => {
+    assert.equal(processed.purpose, "Conveyance");
+
+    const corrected = applyCorrection(processed, "purpose", "Food", categories);
+    const reprocessed = postProcessBill(corrected, { categories, verified: corrected.verified_fields });
+
+    assert.equal(reprocessed.purpose, "Food");
+    assert.equal(reprocessed.purpose_source, "manual");
+  });
+
+  test("lists a field edited twice as verified once", () => {
+    const once = applyCorrection(processed, "bill_no", "T-77", categories);
+    const twice = applyCorrection(once, "bill_no", "T-78", categories);
+
+    assert.equal(twice.bill_no, "T-78");
+    assert.deepEqual(twice.verified_fields, ["bill_no"]);
+  });
+});
+
+describe("createCorrection", () => {
+  const source = { receipt: "uber.jpg", bill_index: 0, page: 1 };
+
+  test("measures a second edit against the value first extracted", () => {
+    const first = createCorrection([], source, "bill_no", "N/A", " T-77 ");
+    const second = createCorrection([first], source, "bill_no", "T-77", "T-78");
+
+    assert.equal(first.corrected, "T-77");
+    assert.equal(second.original, "N/A");
+    assert.equal(second.corrected, "T-78");
+  });
+
+  test("keeps edits to other bills of the same receipt apart", () => {
+    const history: CorrectionRecord[] = [createCorrection([], source, "bill_no", "N/A", "T-77")];
+    const other = createCorrection(history, { ...source, bill_index: 1 }, "bill_no", "B-2", "B-3");
+
+    assert.equal(other.original, "B-2");
+  });
+});
@@ -0,0 +1,85 @@
+import { normalizeAmount } from "@/lib/amount";
+import { receiptLocale } from "@/lib/locale";
+import { categoryNames, type CategorySet } from "@/lib/categories";
+import { postProcessBill, type ProcessedBill } from "@/lib/postprocess";
+
+export const CORRECTABLE_FIELDS = ["bill_no", "amount", "purpose"] as const;
+
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number];
+
+export interface CorrectionSource {
+  /** File name of the uploaded receipt. */
+  receipt: string;
+  /** Index of the bill within the receipt, for multi-bill documents. */
+  bill_index: number;
+  page: number;
+}
+
+export interface CorrectionRecord extends CorrectionSource {
+  field: CorrectableField;
+  original: string;
+  corrected: string;
+  timestamp: string;
+}
+
+/** Returns an error message for an invalid manual value, or null when it is acceptable. */
+export function validateField(field: CorrectableField, value: string, categories: CategorySet): string | null {
+  const trimmed = value.trim();
+
+  switch (field) {
+    case "bill_no":
+      if (!trimmed) return "Bill number can't be empty; use N/A if there is none.";
+      if (trimmed.length > 64) return "Bill number is too long.";
+      return null;
+    case "amount":
+      return normalizeAmount(trimmed) ? null : "Enter an amount such as ₹1,234.50.";
+    case "purpose":
+      return categoryNames(categories).includes(trimmed) ? null : "Pick one of the listed categories.";
+  }
+}
+
+/**
+ * Applies a validated manual correction and re-runs post-processing so totals,
+ * warnings and the review flag reflect the new value.
+ */
+export function applyCorrection(
+  bill: ProcessedBill,
+  field: CorrectableField,
+  value: string,
+  categories: CategorySet
+): ProcessedBill {
+  const trimmed = value.trim();
+  const updated: ProcessedBill =
+    field === "amount"
+      ? { ...bill, amount: trimmed, amount_value: normalizeAmount(trimmed, bill.currency ?? undefined, receiptLocale(bill))?.value ?? null }
+      : field === "purpose"
+        ? { ...bill, purpose: trimmed }
+        : { ...bill, bill_no: trimmed };
+
+  const verified = bill.verified_fields.includes(field) ? bill.verified_fields : [...bill.verified_fields, field];
+  return postProcessBill(updated, { categories, verified });
+}
+
+/**
+ * Builds the record for one edit. `original` is always the value first
+ * extracted, so a field edited twice still measures against the model's answer.
+ */
+export function createCorrection(
+  history: CorrectionRecord[],
+  source: CorrectionSource,
+  field: CorrectableField,
+  current: string,
+  corrected: string
+): CorrectionRecord {
+  const earlier = history.find(
+    (record) => record.receipt === source.receipt && record.bill_index === source.bill_index && record.field === field
+  );
+
+  return {
+    ...source,
+    field,
+    original: earlier?.original ?? current,
+    corrected: corrected.trim(),
+    timestamp: new Date().toISOString(),
+  };
+}
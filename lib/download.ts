@@ -0,0 +1,12 @@
+/** Saves `content` as a file through a temporary link. Browser only. */
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const element = document.createElement("a");
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  element.href = url;
+  element.download = fileName;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  // Revoked on the next tick rather than right away: some browsers start reading the blob after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { mergeDuplicates, type DuplicateMatch } from "@/lib/duplicates";
+
+const match = (id: string, uploadId: string | null, kind: DuplicateMatch["kind"] = "exact_image"): DuplicateMatch => ({
+  kind,
+  original: { id, upload_id: uploadId, label: "Cafe Coffee Day", created_at: "2024-03-14T10:00:00.000Z" },
+  bill_index: null,
+  original_bill_index: null,
+});
+
+describe("mergeDuplicates", () => {
+  test("links a server match to the saved record named by its upload id", () => {
+    const merged = mergeDuplicates([], [match("extraction-1", "record-1")]);
+
+    assert.equal(merged[0].original.id, "record-1");
+  });
+
+  test("reports a pair found by both the browser and the server once", () => {
+    const merged = mergeDuplicates([match("record-1", null)], [match("extraction-1", "record-1", "similar_image")]);
+
+    assert.deepEqual(
+      merged.map(({ kind, original }) => [kind, original.id]),
+      [["exact_image", "record-1"]]
+    );
+  });
+
+  test("keeps server matches whose original the browser never saved", () => {
+    const merged = mergeDuplicates([match("record-1", null)], [match("extraction-2", null)]);
+
+    assert.deepEqual(
+      merged.map(({ original }) => original.id),
+      ["record-1", "extraction-2"]
+    );
+  });
+});
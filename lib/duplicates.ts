@@ -0,0 +1,162 @@
+import type { ExtractedBill } from "@/lib/expense";
+
+/** The fields that identify a bill regardless of how it was photographed. */
+export interface BillKey {
+  bill_no: string;
+  amount_value: number;
+  merchant: string | null;
+  date: string | null;
+}
+
+export interface ReceiptFingerprint {
+  /** SHA-256 of the uploaded bytes, hex encoded. */
+  sha256: string;
+  /** 64-bit difference hash as 16 hex characters; null when the document couldn't be drawn (PDFs). */
+  perceptual_hash: string | null;
+  /** One entry per extracted bill; null where the bill lacks a bill number or amount. */
+  bills: (BillKey | null)[];
+}
+
+export interface FingerprintedReceipt {
+  id: string;
+  /** The client's own id for the file; retries of one upload share it and never match each other. */
+  upload_id?: string | null;
+  /** Human-readable name of the receipt, e.g. its file name. */
+  label: string;
+  created_at: string;
+  fingerprint: ReceiptFingerprint;
+}
+
+export type DuplicateKind = "exact_image" | "similar_image" | "same_bill";
+
+export interface DuplicateMatch {
+  kind: DuplicateKind;
+  original: Omit<FingerprintedReceipt, "fingerprint">;
+  /** Bill in the new receipt that matched; null when the whole image matched. */
+  bill_index: number | null;
+  original_bill_index: number | null;
+  /** Bits that differ between the perceptual hashes, for `similar_image`. */
+  distance?: number;
+}
+
+export const PERCEPTUAL_HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+// Two photos of the same paper receipt usually land within a few bits of each other.
+const SIMILAR_IMAGE_DISTANCE = 6;
+
+// Side of the grid the difference hash is computed over; one extra column for the comparisons.
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Difference hash over a 9×8 grayscale grid: each bit says whether a pixel is
+ * brighter than its right-hand neighbour. Robust to scaling and re-compression.
+ */
+export function differenceHash(gray: ArrayLike<number>): string {
+  let hex = "";
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let byte = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const index = row * HASH_WIDTH + col;
+      byte = (byte << 1) | (gray[index] > gray[index + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+const normalizeText = (value: string | null) => value?.toLowerCase().replace(/[^a-z0-9]/g, "") || null;
+
+/** Bill identity used for matching; null when there is too little to match on. */
+export function billKey(bill: ExtractedBill): BillKey | null {
+  const billNo = normalizeText(bill.bill_no);
+  if (!billNo || billNo === "0" || bill.amount_value === null) return null;
+
+  return {
+    bill_no: billNo,
+    amount_value: bill.amount_value,
+    merchant: normalizeText(bill.merchant_name),
+    date: bill.date,
+  };
+}
+
+const sameBill = (a: BillKey, b: BillKey) =>
+  a.bill_no === b.bill_no && a.amount_value === b.amount_value && a.merchant === b.merchant && a.date === b.date;
+
+/**
+ * Compares a new receipt against earlier ones. An image match is reported once
+ * per original; bill matches are only reported for originals whose image differs.
+ */
+export function findDuplicates(fingerprint: ReceiptFingerprint, earlier: FingerprintedReceipt[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+
+  for (const { fingerprint: previous, ...original } of earlier) {
+    if (previous.sha256 === fingerprint.sha256) {
+      matches.push({ kind: "exact_image", original, bill_index: null, original_bill_index: null });
+      continue;
+    }
+
+    if (fingerprint.perceptual_hash && previous.perceptual_hash) {
+      const distance = hammingDistance(fingerprint.perceptual_hash, previous.perceptual_hash);
+      if (distance <= SIMILAR_IMAGE_DISTANCE) {
+        matches.push({ kind: "similar_image", original, bill_index: null, original_bill_index: null, distance });
+        continue;
+      }
+    }
+
+    fingerprint.bills.forEach((key, billIndex) => {
+      if (!key) return;
+      const originalBillIndex = previous.bills.findIndex((other) => other !== null && sameBill(key, other));
+      if (originalBillIndex >= 0) {
+        matches.push({ kind: "same_bill", original, bill_index: billIndex, original_bill_index: originalBillIndex });
+      }
+    });
+  }
+
+  return matches;
+}
+
+export const describeDuplicate = (match: DuplicateMatch) => {
+  switch (match.kind) {
+    case "exact_image":
+      return `Same file as ${match.original.label}`;
+    case "similar_image":
+      return `Looks like another photo of ${match.original.label}`;
+    case "same_bill":
+      return `Same bill number, amount, merchant and date as ${match.original.label}`;
+  }
+};
+
+const matchKey = ({ original, bill_index, original_bill_index }: DuplicateMatch) =>
+  `${original.id}:${bill_index}:${original_bill_index}`;
+
+/**
+ * The browser's matches against its saved history, plus the server's. The server names
+ * an original by its extraction id, or by the `upload_id` the client sent, which the
+ * UI sets to the saved record's id; those are switched back so the match links to the
+ * record. A pair both found is reported once.
+ */
+export function mergeDuplicates(local: DuplicateMatch[], server: DuplicateMatch[]): DuplicateMatch[] {
+  const seen = new Set(local.map(matchKey));
+  const fromServer = server
+    .map((match) => (match.original.upload_id ? { ...match, original: { ...match.original, id: match.original.upload_id } } : match))
+    .filter((match) => !seen.has(matchKey(match)));
+  return [...local, ...fromServer];
+}
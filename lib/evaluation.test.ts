@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  compareReports,
+  groundTruthSchema,
+  missedDocument,
+  scoreDocument,
+  scoreField,
+  summarizeEvaluation,
+  type CaseResult,
+  type EvaluationConfig,
+} from "@/lib/evaluation";
+import type { ExtractedBill } from "@/lib/expense";
+
+const config: EvaluationConfig = {
+  name: "baseline",
+  provider: "mock",
+  model: "mock",
+  department: "default",
+  prompt_sha256: "0".repeat(64),
+  schema_version: 1,
+};
+
+const extracted = (overrides: Partial<ExtractedBill>): ExtractedBill => ({
+  bill_no: "INV-2041",
+  amount: "₹1,180.00",
+  purpose: "Food",
+  raw_text: "",
+  date: "2024-03-14",
+  merchant_name: "Cafe Coffee Day",
+  merchant_gstin: null,
+  subtotal: null,
+  taxes: { cgst: null, sgst: null, igst: null, other: null },
+  tip: null,
+  currency: "INR",
+  amount_value: 1180,
+  payment_method: null,
+  line_items: [],
+  confidence: { bill_no: 1, amount: 1, purpose: 1, date: 1, merchant_name: 1 },
+  page: 1,
+  ...overrides,
+});
+
+const caseResult = (document: string, fields: CaseResult["fields"], extra: Partial<CaseResult> = {}): CaseResult => ({
+  document,
+  error: null,
+  provider: "mock",
+  model: "mock",
+  fields,
+  extra_bills: 0,
+  cost_usd: 0.001,
+  input_tokens: 1000,
+  output_tokens: 100,
+  latency_ms: 800,
+  ...extra,
+});
+
+describe("scoreField", () => {
+  test("counts an OCR slip in text as a fuzzy match only", () => {
+    assert.deepEqual(scoreField("merchant_name", "Cafe Coffee Day", "Cafe Coffe Day"), { exact: false, fuzzy: true });
+    assert.deepEqual(scoreField("merchant_name", "Cafe Coffee Day", "Starbucks"), { exact: false, fuzzy: false });
+  });
+
+  test("ignores surrounding and repeated whitespace", () => {
+    assert.deepEqual(scoreField("bill_no", "INV 2041", "  INV  2041 "), { exact: true, fuzzy: true });
+  });
+
+  test("allows amounts within 1% as fuzzy", () => {
+    assert.deepEqual(scoreField("amount_value", 1180, 1180.001), { exact: true, fuzzy: true });
+    assert.deepEqual(scoreField("amount_value", 1180, 1190), { exact: false, fuzzy: true });
+    assert.deepEqual(scoreField("amount_value", 1180, 1250), { exact: false, fuzzy: false });
+  });
+
+  test("accepts a date with day and month swapped as fuzzy", () => {
+    assert.deepEqual(scoreField("date", "2024-03-04", "2024-04-03"), { exact: false, fuzzy: true });
+  });
+
+  test("compares labels without case but never loosely", () => {
+    assert.deepEqual(scoreField("currency", "INR", "inr"), { exact: true, fuzzy: true });
+    assert.deepEqual(scoreField("purpose", "Food", "Foods"), { exact: false, fuzzy: false });
+  });
+
+  test("matches a field labeled as not printed only when nothing was extracted", () => {
+    assert.deepEqual(scoreField("bill_no", null, "N/A"), { exact: true, fuzzy: true });
+    assert.deepEqual(scoreField("bill_no", null, "INV-1"), { exact: false, fuzzy: false });
+    assert.deepEqual(scoreField("bill_no", "INV-1", "N/A"), { exact: false, fuzzy: false });
+  });
+});
+
+describe("groundTruthSchema", () => {
+  test("reads a single bill or a list of bills", () => {
+    assert.deepEqual(groundTruthSchema.parse({ amount_value: 10 }), [{ amount_value: 10 }]);
+    assert.deepEqual(groundTruthSchema.parse({ bills: [{ amount_value: 10 }, { amount_value: 20 }] }), [
+      { amount_value: 10 },
+      { amount_value: 20 },
+    ]);
+  });
+
+  test("refuses a date that isn't YYYY-MM-DD", () => {
+    assert.equal(groundTruthSchema.safeParse({ date: "14/03/2024" }).success, false);
+  });
+});
+
+describe("scoreDocument", () => {
+  test("scores only the labeled fields, bill by bill", () => {
+    const scores = scoreDocument([{ amount_value: 1180 }, { amount_value: 200 }], [extracted({})]);
+
+    assert.deepEqual(
+      scores.map(({ field, bill, actual, exact }) => [field, bill, actual, exact]),
+      [
+        ["amount_value", 0, 1180, true],
+        ["amount_value", 1, null, false],
+      ]
+    );
+  });
+});
+
+describe("summarizeEvaluation", () => {
+  const cases = [
+    caseResult("a.jpg", scoreDocument([{ amount_value: 1000, purpose: "Food" }], [extracted({ amount_value: 1100 })])),
+    caseResult("b.jpg", scoreDocument([{ amount_value: 500, purpose: "Hotel" }], [extracted({ amount_value: 500 })]), {
+      cost_usd: null,
+    }),
+    caseResult("c.jpg", missedDocument([{ amount_value: 200, purpose: "Conveyance" }]), { error: "timeout" }),
+  ];
+  const report = summarizeEvaluation(config, cases, new Date("2024-03-14T10:00:00.000Z"));
+
+  test("reports accuracy per field", () => {
+    assert.equal(report.documents, 3);
+    assert.equal(report.failed, 1);
+    assert.deepEqual(report.fields.amount_value, { labeled: 3, exact: 1, fuzzy: 1, exact_rate: 1 / 3, fuzzy_rate: 1 / 3 });
+    assert.equal(report.fields.date, undefined);
+  });
+
+  test("counts labeled against extracted categories", () => {
+    assert.deepEqual(report.confusion, {
+      Food: { Food: 1 },
+      Hotel: { Food: 1 },
+      Conveyance: { "(none)": 1 },
+    });
+  });
+
+  test("counts a missing total as an error of the full amount", () => {
+    assert.deepEqual(report.amount, {
+      compared: 3,
+      missing: 1,
+      mean_absolute_error: 100,
+      mean_relative_error: (0.1 + 0 + 1) / 3,
+      max_absolute_error: 200,
+    });
+  });
+
+  test("averages cost over priced documents and counts the rest", () => {
+    assert.equal(report.cost.total_usd, 0.002);
+    assert.equal(report.cost.per_document_usd, 0.001);
+    assert.equal(report.cost.unpriced, 1);
+    assert.equal(report.cost.input_tokens, 3000);
+  });
+});
+
+describe("compareReports", () => {
+  test("lists fields one run got right and the other didn't, and documents only one ran", () => {
+    const baseline = summarizeEvaluation(config, [
+      caseResult("a.jpg", scoreDocument([{ bill_no: "INV-1", amount_value: 10 }], [extracted({ bill_no: "INV-1", amount_value: 12 })])),
+      caseResult("b.jpg", []),
+    ]);
+    const candidate = summarizeEvaluation({ ...config, name: "candidate" }, [
+      caseResult("a.jpg", scoreDocument([{ bill_no: "INV-1", amount_value: 10 }], [extracted({ bill_no: "INV-7", amount_value: 10 })])),
+      caseResult("c.jpg", []),
+    ]);
+
+    const comparison = compareReports(baseline, candidate);
+
+    assert.deepEqual(comparison.unmatched, ["b.jpg", "c.jpg"]);
+    assert.deepEqual(
+      comparison.regressions.map(({ field, baseline, candidate }) => [field, baseline, candidate]),
+      [["bill_no", "INV-1", "INV-7"]]
+    );
+    assert.deepEqual(
+      comparison.improvements.map(({ field, baseline, candidate }) => [field, baseline, candidate]),
+      [["amount_value", 12, 10]]
+    );
+  });
+});
@@ -0,0 +1,462 @@
+import { z } from "zod";
+import type { ExtractedBill } from "@/lib/expense";
+
+/** Fields a ground-truth file may label; only the ones it gives are scored. */
+export const EVALUATION_FIELDS = [
+  "bill_no",
+  "date",
+  "merchant_name",
+  "merchant_gstin",
+  "amount_value",
+  "currency",
+  "subtotal",
+  "tip",
+  "purpose",
+  "payment_method",
+] as const;
+
+export type EvaluationField = (typeof EVALUATION_FIELDS)[number];
+
+const NUMBER_FIELDS = new Set<EvaluationField>(["amount_value", "subtotal", "tip"]);
+const LABEL_FIELDS = new Set<EvaluationField>(["currency", "purpose", "payment_method"]);
+
+const expectedBillSchema = z
+  .object({
+    bill_no: z.string().nullable(),
+    date: z.iso.date().nullable(),
+    merchant_name: z.string().nullable(),
+    merchant_gstin: z.string().nullable(),
+    amount_value: z.number().nullable(),
+    currency: z.string().nullable(),
+    subtotal: z.number().nullable(),
+    tip: z.number().nullable(),
+    purpose: z.string().nullable(),
+    payment_method: z.string().nullable(),
+  })
+  .partial();
+
+export type ExpectedBill = z.infer<typeof expectedBillSchema>;
+
+/**
+ * A ground-truth file: one bill's fields, or `{ "bills": [...] }` in page
+ * order for documents with several. `null` means the field is not printed.
+ */
+export const groundTruthSchema = z.union([
+  z.object({ bills: z.array(expectedBillSchema).min(1) }).transform(({ bills }) => bills),
+  expectedBillSchema.transform((bill) => [bill]),
+]);
+
+export interface FieldScore {
+  field: EvaluationField;
+  /** Index of the bill within its document. */
+  bill: number;
+  expected: string | number | null;
+  actual: string | number | null;
+  exact: boolean;
+  fuzzy: boolean;
+}
+
+/** How one document of the corpus fared. */
+export interface CaseResult {
+  document: string;
+  /** The API error code when extraction failed; every labeled field then counts as missed. */
+  error: string | null;
+  provider: string | null;
+  model: string | null;
+  fields: FieldScore[];
+  /** Bills extracted beyond the labeled ones. */
+  extra_bills: number;
+  cost_usd: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  latency_ms: number;
+}
+
+export interface FieldAccuracy {
+  labeled: number;
+  exact: number;
+  fuzzy: number;
+  exact_rate: number;
+  fuzzy_rate: number;
+}
+
+export interface AmountError {
+  /** Bills with a labeled total; missing totals count as errors of the full amount. */
+  compared: number;
+  missing: number;
+  mean_absolute_error: number | null;
+  /** Mean of |error| / |expected|, over bills whose labeled total isn't 0. */
+  mean_relative_error: number | null;
+  max_absolute_error: number | null;
+}
+
+export interface CostSummary {
+  total_usd: number;
+  per_document_usd: number | null;
+  /** Documents whose model had no price in config/pricing.json, and so add nothing to the total. */
+  unpriced: number;
+  input_tokens: number;
+  output_tokens: number;
+  mean_latency_ms: number | null;
+}
+
+/** What an evaluation run used; two reports are only comparable on the same corpus. */
+export interface EvaluationConfig {
+  name: string;
+  provider: string;
+  model: string | null;
+  department: string;
+  /** sha256 of the system prompt, so reports from different prompts can be told apart. */
+  prompt_sha256: string;
+  schema_version: number;
+}
+
+export interface EvaluationReport {
+  config: EvaluationConfig;
+  created_at: string;
+  documents: number;
+  failed: number;
+  fields: Partial<Record<EvaluationField, FieldAccuracy>>;
+  /** Labeled category -> extracted category -> bills. */
+  confusion: Record<string, Record<string, number>>;
+  amount: AmountError;
+  cost: CostSummary;
+  cases: CaseResult[];
+}
+
+// Absent values in extractor output; "N/A" is what the prompt asks for when there's no bill number.
+const isAbsent = (value: unknown) => value === null || value === undefined || value === "" || value === "N/A";
+
+const collapse = (value: string) => value.trim().replace(/\s+/g, " ");
+
+const simplify = (value: string) => value.toLowerCase().normalize("NFKC").replace(/[^\p{L}\p{N}]/gu, "");
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical strings down to 0 for nothing in common, by edit distance. */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+// Fuzzy matches tolerate OCR slips in text and rounding in amounts.
+const FUZZY_SIMILARITY = 0.8;
+const FUZZY_RELATIVE_ERROR = 0.01;
+
+/** Day and month read the wrong way round, as when a receipt's locale is mistaken. */
+const swapsDayAndMonth = (expected: string, actual: string) => {
+  const [year, month, day] = expected.split("-");
+  return actual === `${year}-${day}-${month}`;
+};
+
+/**
+ * Whether an extracted value matches its label exactly and loosely. Exact
+ * means equal up to whitespace (labels such as purpose and currency ignore
+ * case too); fuzzy also accepts text that is 80% similar ignoring case and
+ * punctuation, amounts within 1%, and dates with day and month swapped.
+ */
+export function scoreField(
+  field: EvaluationField,
+  expected: string | number | null,
+  actual: unknown
+): Pick<FieldScore, "exact" | "fuzzy"> {
+  if (expected === null || isAbsent(actual)) {
+    const match = expected === null && isAbsent(actual);
+    return { exact: match, fuzzy: match };
+  }
+
+  if (NUMBER_FIELDS.has(field)) {
+    const value = Number(actual);
+    if (!Number.isFinite(value)) return { exact: false, fuzzy: false };
+    const error = Math.abs(value - Number(expected));
+    return { exact: error < 0.005, fuzzy: error <= Math.max(0.01, Math.abs(Number(expected)) * FUZZY_RELATIVE_ERROR) };
+  }
+
+  const [want, got] = [collapse(String(expected)), collapse(String(actual))];
+
+  if (field === "date") {
+    return { exact: want === got, fuzzy: want === got || swapsDayAndMonth(want, got) };
+  }
+
+  if (LABEL_FIELDS.has(field)) {
+    const match = want.toLowerCase() === got.toLowerCase();
+    return { exact: match, fuzzy: match };
+  }
+
+  return { exact: want === got, fuzzy: want === got || similarity(simplify(want), simplify(got)) >= FUZZY_SIMILARITY };
+}
+
+const asValue = (value: unknown): string | number | null =>
+  typeof value === "string" || typeof value === "number" ? value : null;
+
+/** Scores each labeled field of each bill against the bill extracted at the same position. */
+export function scoreDocument(expected: ExpectedBill[], actual: ExtractedBill[]): FieldScore[] {
+  return expected.flatMap((labels, bill) =>
+    EVALUATION_FIELDS.flatMap((field) => {
+      const want = labels[field];
+      if (want === undefined) return [];
+      const got = actual[bill]?.[field];
+      return [{ field, bill, expected: want, actual: asValue(got), ...scoreField(field, want, got) }];
+    })
+  );
+}
+
+/** Score for a document that couldn't be extracted: every label missed. */
+export const missedDocument = (expected: ExpectedBill[]) => scoreDocument(expected, []);
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+// Bills the extractor gave no category for.
+const NO_CATEGORY = "(none)";
+
+/** Aggregates scored documents into a report. */
+export function summarizeEvaluation(config: EvaluationConfig, cases: CaseResult[], now = new Date()): EvaluationReport {
+  const scores = cases.flatMap((result) => result.fields);
+
+  const fields: EvaluationReport["fields"] = {};
+  for (const field of EVALUATION_FIELDS) {
+    const labeled = scores.filter((score) => score.field === field);
+    if (labeled.length === 0) continue;
+    const exact = labeled.filter((score) => score.exact).length;
+    const fuzzy = labeled.filter((score) => score.fuzzy).length;
+    fields[field] = { labeled: labeled.length, exact, fuzzy, exact_rate: rate(exact, labeled.length), fuzzy_rate: rate(fuzzy, labeled.length) };
+  }
+
+  const confusion: EvaluationReport["confusion"] = {};
+  for (const score of scores) {
+    if (score.field !== "purpose" || score.expected === null) continue;
+    const expected = String(score.expected);
+    const actual = score.actual === null ? NO_CATEGORY : String(score.actual);
+    confusion[expected] ??= {};
+    confusion[expected][actual] = (confusion[expected][actual] ?? 0) + 1;
+  }
+
+  const totals = scores.filter((score) => score.field === "amount_value" && typeof score.expected === "number");
+  const errors = totals.map((score) => Math.abs((typeof score.actual === "number" ? score.actual : 0) - Number(score.expected)));
+  const relative = totals.flatMap((score, i) => (score.expected === 0 ? [] : [errors[i] / Math.abs(Number(score.expected))]));
+
+  const latencies = cases.map((result) => result.latency_ms);
+  const priced = cases.filter((result) => result.cost_usd !== null);
+  const totalCost = priced.reduce((sum, result) => sum + (result.cost_usd ?? 0), 0);
+
+  return {
+    config,
+    created_at: now.toISOString(),
+    documents: cases.length,
+    failed: cases.filter((result) => result.error !== null).length,
+    fields,
+    confusion,
+    amount: {
+      compared: totals.length,
+      missing: totals.filter((score) => score.actual === null).length,
+      mean_absolute_error: mean(errors),
+      mean_relative_error: mean(relative),
+      max_absolute_error: errors.length > 0 ? Math.max(...errors) : null,
+    },
+    cost: {
+      total_usd: Math.round(totalCost * 1e8) / 1e8,
+      per_document_usd: priced.length > 0 ? totalCost / priced.length : null,
+      unpriced: cases.length - priced.length,
+      input_tokens: cases.reduce((sum, result) => sum + (result.input_tokens ?? 0), 0),
+      output_tokens: cases.reduce((sum, result) => sum + (result.output_tokens ?? 0), 0),
+      mean_latency_ms: mean(latencies),
+    },
+    cases,
+  };
+}
+
+export interface FieldChange {
+  document: string;
+  bill: number;
+  field: EvaluationField;
+  expected: string | number | null;
+  baseline: string | number | null;
+  candidate: string | number | null;
+}
+
+export interface ReportComparison {
+  baseline: EvaluationConfig;
+  candidate: EvaluationConfig;
+  /** Documents in only one of the reports; they are left out of `regressions` and `improvements`. */
+  unmatched: string[];
+  fields: { field: EvaluationField; baseline: FieldAccuracy | null; candidate: FieldAccuracy | null }[];
+  /** Fields the baseline got exactly right and the candidate didn't. */
+  regressions: FieldChange[];
+  improvements: FieldChange[];
+}
+
+/** Lines up two reports on the same corpus, field by field and document by document. */
+export function compareReports(baseline: EvaluationReport, candidate: EvaluationReport): ReportComparison {
+  const candidateCases = new Map(candidate.cases.map((result) => [result.document, result]));
+  const baselineDocuments = new Set(baseline.cases.map((result) => result.document));
+  const unmatched = [
+    ...baseline.cases.filter((result) => !candidateCases.has(result.document)),
+    ...candidate.cases.filter((result) => !baselineDocuments.has(result.document)),
+  ].map((result) => result.document);
+
+  const regressions: FieldChange[] = [];
+  const improvements: FieldChange[] = [];
+  for (const before of baseline.cases) {
+    const after = candidateCases.get(before.document);
+    if (!after) continue;
+
+    for (const score of before.fields) {
+      const other = after.fields.find((candidateScore) => candidateScore.field === score.field && candidateScore.bill === score.bill);
+      if (!other || other.exact === score.exact) continue;
+      const change = {
+        document: before.document,
+        bill: score.bill,
+        field: score.field,
+        expected: score.expected,
+        baseline: score.actual,
+        candidate: other.actual,
+      };
+      (score.exact ? regressions : improvements).push(change);
+    }
+  }
+
+  return {
+    baseline: baseline.config,
+    candidate: candidate.config,
+    unmatched,
+    fields: EVALUATION_FIELDS.filter((field) => baseline.fields[field] || candidate.fields[field]).map((field) => ({
+      field,
+      baseline: baseline.fields[field] ?? null,
+      candidate: candidate.fields[field] ?? null,
+    })),
+    regressions,
+    improvements,
+  };
+}
+
+/** Plain-text table with padded columns, for terminal output. */
+export function formatTable(header: string[], rows: (string | number)[][]): string {
+  const cells = [header, ...rows.map((row) => row.map(String))];
+  const widths = header.map((_, column) => Math.max(...cells.map((row) => row[column]?.length ?? 0)));
+  const line = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [line(header), widths.map((width) => "-".repeat(width)).join("  "), ...cells.slice(1).map(line)].join("\n");
+}
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? "-" : `${(value * 100).toFixed(1)}%`);
+
+const signedPoints = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}`;
+
+const money = (value: number | null) => (value === null ? "-" : value.toFixed(2));
+
+const usd = (value: number | null) => (value === null ? "-" : `$${value.toFixed(4)}`);
+
+const describeConfig = ({ name, provider, model, prompt_sha256 }: EvaluationConfig) =>
+  `${name}: ${provider}${model ? ` (${model})` : ""}, prompt ${prompt_sha256.slice(0, 12)}`;
+
+/** The report as text: field accuracy, category confusion, amount error and cost. */
+export function formatReport(report: EvaluationReport): string {
+  const { amount, cost } = report;
+  const labels = [...new Set([...Object.keys(report.confusion), ...Object.values(report.confusion).flatMap(Object.keys)])].sort();
+
+  const sections = [
+    describeConfig(report.config),
+    `${report.documents} documents, ${report.failed} failed`,
+    formatTable(
+      ["field", "labeled", "exact", "fuzzy"],
+      Object.entries(report.fields).map(([field, accuracy]) => [field, accuracy.labeled, percent(accuracy.exact_rate), percent(accuracy.fuzzy_rate)])
+    ),
+  ];
+
+  if (labels.length > 0) {
+    sections.push(
+      "Category confusion (rows: labeled, columns: extracted)\n" +
+        formatTable(
+          ["", ...labels],
+          Object.keys(report.confusion)
+            .sort()
+            .map((expected) => [expected, ...labels.map((actual) => report.confusion[expected][actual] ?? 0)])
+        )
+    );
+  }
+
+  sections.push(
+    [
+      `Amount: ${amount.compared} compared, ${amount.missing} missing`,
+      `mean absolute error ${money(amount.mean_absolute_error)}, mean relative error ${percent(amount.mean_relative_error)}, max ${money(amount.max_absolute_error)}`,
+    ].join("; "),
+    [
+      `Cost: ${usd(cost.total_usd)} total, ${usd(cost.per_document_usd)} per document` + (cost.unpriced > 0 ? ` (${cost.unpriced} unpriced)` : ""),
+      `${cost.input_tokens} input and ${cost.output_tokens} output tokens`,
+      `mean latency ${cost.mean_latency_ms === null ? "-" : `${Math.round(cost.mean_latency_ms)} ms`}`,
+    ].join("; ")
+  );
+
+  return sections.join("\n\n");
+}
+
+const MAX_LISTED_CHANGES = 20;
+
+function formatChanges(title: string, changes: FieldChange[]): string {
+  const shown = changes.slice(0, MAX_LISTED_CHANGES);
+  const table = formatTable(
+    ["document", "field", "expected", "baseline", "candidate"],
+    shown.map((change) => [
+      change.bill > 0 ? `${change.document} #${change.bill + 1}` : change.document,
+      change.field,
+      String(change.expected),
+      String(change.baseline),
+      String(change.candidate),
+    ])
+  );
+  const more = changes.length > shown.length ? `\n... and ${changes.length - shown.length} more` : "";
+  return `${title} (${changes.length})\n${table}${more}`;
+}
+
+/** Side-by-side accuracy, amount error and cost of two reports, then the fields that changed. */
+export function formatComparison(comparison: ReportComparison, baseline: EvaluationReport, candidate: EvaluationReport): string {
+  const sections = [
+    `Baseline  ${describeConfig(comparison.baseline)}\nCandidate ${describeConfig(comparison.candidate)}`,
+    formatTable(
+      ["field", "baseline exact", "candidate exact", "change", "baseline fuzzy", "candidate fuzzy", "change"],
+      comparison.fields.map(({ field, baseline: before, candidate: after }) => [
+        field,
+        percent(before?.exact_rate),
+        percent(after?.exact_rate),
+        before && after ? signedPoints(after.exact_rate - before.exact_rate) : "-",
+        percent(before?.fuzzy_rate),
+        percent(after?.fuzzy_rate),
+        before && after ? signedPoints(after.fuzzy_rate - before.fuzzy_rate) : "-",
+      ])
+    ),
+    formatTable(
+      ["", "baseline", "candidate"],
+      [
+        ["failed documents", baseline.failed, candidate.failed],
+        ["amount mean abs. error", money(baseline.amount.mean_absolute_error), money(candidate.amount.mean_absolute_error)],
+        ["amount mean rel. error", percent(baseline.amount.mean_relative_error), percent(candidate.amount.mean_relative_error)],
+        ["cost per document", usd(baseline.cost.per_document_usd), usd(candidate.cost.per_document_usd)],
+        ["total cost", usd(baseline.cost.total_usd), usd(candidate.cost.total_usd)],
+        [
+          "mean latency (ms)",
+          baseline.cost.mean_latency_ms === null ? "-" : Math.round(baseline.cost.mean_latency_ms),
+          candidate.cost.mean_latency_ms === null ? "-" : Math.round(candidate.cost.mean_latency_ms),
+        ],
+      ]
+    ),
+  ];
+
+  if (comparison.unmatched.length > 0) {
+    sections.push(`Not in both reports, so not compared: ${comparison.unmatched.join(", ")}`);
+  }
+  if (comparison.regressions.length > 0) sections.push(formatChanges("Regressions", comparison.regressions));
+  if (comparison.improvements.length > 0) sections.push(formatChanges("Improvements", comparison.improvements));
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { categoryNames, type CategorySet } from "@/lib/categories";
+
+/** A category name from the department's category set (config/categories.json). */
+export type Purpose = string;
+
+const PURPOSE_DESCRIPTION = "Intelligently categorize the expense purpose based on document content. Analyze merchant name, items purchased, and context to determine the most appropriate category.";
+
+export const PAYMENT_METHODS = ["Cash", "Card", "UPI", "Wallet", "Net Banking", "Other"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const lineItemSchema = z.object({
+  description: z.string().describe("Item or service description as printed"),
+  quantity: z.number().nullable().describe("Quantity, or null if not printed"),
+  unit_price: z.number().nullable().describe("Price per unit as a plain number, or null if not printed"),
+  total: z.number().nullable().describe("Line total as a plain number, or null if not printed"),
+});
+
+export type LineItem = z.infer<typeof lineItemSchema>;
+
+export const taxBreakdownSchema = z.object({
+  cgst: z.number().nullable().describe("Central GST amount, or null"),
+  sgst: z.number().nullable().describe("State GST amount, or null"),
+  igst: z.number().nullable().describe("Integrated GST amount, or null"),
+  other: z.number().nullable().describe("Any other tax, VAT or service charge amount combined, or null"),
+});
+
+export type TaxBreakdown = z.infer<typeof taxBreakdownSchema>;
+
+export const CONFIDENCE_FIELDS = ["bill_no", "amount", "purpose", "date", "merchant_name"] as const;
+
+export type ConfidenceField = (typeof CONFIDENCE_FIELDS)[number];
+
+export const fieldConfidenceSchema = z.object({
+  bill_no: z.number().min(0).max(1),
+  amount: z.number().min(0).max(1),
+  purpose: z.number().min(0).max(1),
+  date: z.number().min(0).max(1),
+  merchant_name: z.number().min(0).max(1),
+});
+
+export type FieldConfidence = z.infer<typeof fieldConfidenceSchema>;
+
+/** A region of the image, as fractions (0–1) of its width and height from the top-left corner. */
+export const boundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+
+/** Fields printed somewhere on the receipt, so they can be located on it. */
+export const BOX_FIELDS = ["bill_no", "amount", "date", "merchant_name"] as const;
+
+export type BoxField = (typeof BOX_FIELDS)[number];
+
+export const fieldBoxesSchema = z.object({
+  bill_no: boundingBoxSchema.optional(),
+  amount: boundingBoxSchema.optional(),
+  date: boundingBoxSchema.optional(),
+  merchant_name: boundingBoxSchema.optional(),
+});
+
+export type FieldBoxes = z.infer<typeof fieldBoxesSchema>;
+
+// Gemini is trained to point at things this way, so it is what the model is asked for.
+const modelBoxSchema = z
+  .array(z.number())
+  .length(4)
+  .nullable()
+  .describe("[ymin, xmin, ymax, xmax] of the printed value on its page, scaled 0-1000, or null if not visible");
+
+export const modelBoxesSchema = z.object({
+  bill_no: modelBoxSchema,
+  amount: modelBoxSchema,
+  date: modelBoxSchema,
+  merchant_name: modelBoxSchema,
+});
+
+export type ModelBoxes = z.infer<typeof modelBoxesSchema>;
+
+const languageSchema = z
+  .string()
+  .nullable()
+  .describe("ISO 639-1 code of the language the document is printed in, such as en, hi, bn, ja or de, or null if unclear");
+
+const localeSchema = z
+  .string()
+  .nullable()
+  .describe("BCP 47 locale whose date and number formats the document uses, such as en-IN, de-DE or ja-JP, or null if unclear");
+
+export const extractedDataSchema = z.object({
+  bill_no: z.string().describe("Bill number, invoice number, or receipt number extracted from the document. If not found, return 'N/A'"),
+  amount: z.string().describe("Total amount or bill amount. Extract the final total value with currency symbol if present. If not found, return '0'"),
+  purpose: z.string().describe(PURPOSE_DESCRIPTION),
+  raw_text: z.string().describe("All extracted text from the image for reference, in the original language"),
+  date: z.string().nullable().describe("Transaction date as YYYY-MM-DD, or null if not found"),
+  merchant_name: z.string().nullable().describe("Merchant, vendor or business name, or null"),
+  merchant_gstin: z.string().nullable().describe("Merchant GSTIN (15 characters), or null"),
+  subtotal: z.number().nullable().describe("Total before tax and tip as a plain number, or null"),
+  taxes: taxBreakdownSchema.describe("Tax breakdown as plain numbers"),
+  tip: z.number().nullable().describe("Tip or gratuity as a plain number, or null"),
+  currency: z.string().nullable().describe("ISO 4217 currency code such as INR, USD or EUR, or null if unknown"),
+  amount_value: z.number().nullable().describe("Final total as a plain number without currency or grouping, or null"),
+  payment_method: z.enum(PAYMENT_METHODS).nullable().describe("How the bill was paid, or null if not shown"),
+  line_items: z.array(lineItemSchema).describe("Purchased items or services; empty if none are itemized"),
+  confidence: fieldConfidenceSchema.describe("How sure you are of each field, from 0 (guess or not found) to 1 (clearly printed and unambiguous)"),
+  /** Where each field is printed on the image the extractor saw; missing when unknown. */
+  field_boxes: fieldBoxesSchema.optional(),
+  /** Missing on results extracted before languages were detected. */
+  language: languageSchema.optional(),
+  locale: localeSchema.optional(),
+  /** Language `merchant_name` and line item descriptions were translated into; null or missing when they are as printed. */
+  translated_to: z.string().nullable().optional(),
+});
+
+export type StructuredData = z.infer<typeof extractedDataSchema>;
+
+export const extractedBillSchema = extractedDataSchema.extend({
+  page: z.number().int().min(1).describe("1-based page number of the document the bill was found on. Use 1 for single images."),
+});
+
+export type ExtractedBill = z.infer<typeof extractedBillSchema>;
+
+const BILLS_DESCRIPTION = "One entry per distinct bill, invoice or receipt in the document, in page order. A page may hold several bills.";
+
+export const documentExtractionSchema = z.object({
+  bills: z.array(extractedBillSchema).min(1).describe(BILLS_DESCRIPTION),
+});
+
+/**
+ * The schema sent to the model, with `purpose` restricted to the department's
+ * categories, field locations in the model's own box format, and the
+ * document's language and locale required.
+ */
+export function createDocumentExtractionSchema(set: CategorySet) {
+  const names = categoryNames(set) as [string, ...string[]];
+
+  return z.object({
+    bills: z
+      .array(
+        extractedBillSchema.omit({ field_boxes: true, translated_to: true }).extend({
+          purpose: z.enum(names).describe(PURPOSE_DESCRIPTION),
+          language: languageSchema,
+          locale: localeSchema,
+          boxes: modelBoxesSchema.describe("Where bill_no, amount, date and merchant_name are printed"),
+        })
+      )
+      .min(1)
+      .describe(BILLS_DESCRIPTION),
+  });
+}
+
+/** Bump when the extraction schema changes, so results cached under the old shape are not served. */
+export const EXTRACTION_SCHEMA_VERSION = 3;
+
+export const isPdf = (mimeType: string) => mimeType === "application/pdf";
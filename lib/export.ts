@@ -0,0 +1,225 @@
+import type { Purpose } from "@/lib/expense";
+import type { ProcessedBill } from "@/lib/postprocess";
+import { createZip } from "@/lib/zip";
+
+export interface ExportRow {
+  receipt: string;
+  bill: ProcessedBill;
+  /** JPEG data URL attached to the printable report; null when unavailable. */
+  thumbnail: string | null;
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (row: ExportRow) => string | number | null;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "receipt", label: "Receipt", value: (row) => row.receipt },
+  { key: "page", label: "Page", value: (row) => row.bill.page },
+  { key: "date", label: "Date", value: (row) => row.bill.date },
+  { key: "merchant_name", label: "Merchant", value: (row) => row.bill.merchant_name },
+  { key: "merchant_gstin", label: "GSTIN", value: (row) => row.bill.merchant_gstin },
+  { key: "bill_no", label: "Bill Number", value: (row) => row.bill.bill_no },
+  { key: "purpose", label: "Purpose", value: (row) => row.bill.purpose },
+  { key: "amount", label: "Amount (as printed)", value: (row) => row.bill.amount },
+  { key: "amount_value", label: "Amount", value: (row) => row.bill.amount_value },
+  { key: "currency", label: "Currency", value: (row) => row.bill.currency },
+  { key: "subtotal", label: "Subtotal", value: (row) => row.bill.subtotal },
+  { key: "cgst", label: "CGST", value: (row) => row.bill.taxes.cgst },
+  { key: "sgst", label: "SGST", value: (row) => row.bill.taxes.sgst },
+  { key: "igst", label: "IGST", value: (row) => row.bill.taxes.igst },
+  { key: "other_tax", label: "Other Tax", value: (row) => row.bill.taxes.other },
+  { key: "tip", label: "Tip", value: (row) => row.bill.tip },
+  { key: "payment_method", label: "Payment Method", value: (row) => row.bill.payment_method },
+  { key: "language", label: "Language", value: (row) => row.bill.language ?? null },
+  { key: "needs_review", label: "Needs Review", value: (row) => (row.bill.needs_review ? "Yes" : "No") },
+];
+
+export const DEFAULT_COLUMN_KEYS = ["date", "merchant_name", "bill_no", "purpose", "amount_value", "currency"];
+
+export const columnsFor = (keys: string[]) => EXPORT_COLUMNS.filter((column) => keys.includes(column.key));
+
+const escapeCsv = (value: string | number | null) => {
+  let text = value === null ? "" : String(value);
+  // Keep spreadsheet apps from evaluating extracted text as a formula.
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** RFC 4180 CSV with a UTF-8 BOM so Excel keeps ₹ and other symbols intact. */
+export function toCsv(rows: ExportRow[], columns: ExportColumn[]): string {
+  const lines = [
+    columns.map((column) => escapeCsv(column.label)).join(","),
+    ...rows.map((row) => columns.map((column) => escapeCsv(column.value(row))).join(",")),
+  ];
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+// Column letters for a zero-based index: 0 → A, 25 → Z, 26 → AA.
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+// XML 1.0 forbids most control characters, which OCR text occasionally contains.
+const xmlText = (value: string) => escapeXml(value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ""));
+
+const XLSX_PARTS = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Expenses" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    "</Relationships>",
+};
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Excel workbook (.xlsx) with one "Expenses" sheet and typed numeric cells.
+ * Text goes in as inline strings, so it is never evaluated as a formula.
+ */
+export function toXlsx(rows: ExportRow[], columns: ExportColumn[]): Uint8Array<ArrayBuffer> {
+  const cell = (value: string | number | null, column: number, row: number) => {
+    const ref = `${columnName(column)}${row}`;
+    if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    if (typeof value !== "string" || value === "") return "";
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+  };
+  const sheetRow = (values: (string | number | null)[], row: number) =>
+    `<row r="${row}">${values.map((value, column) => cell(value, column, row)).join("")}</row>`;
+
+  const sheet = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>',
+    sheetRow(columns.map((column) => column.label), 1),
+    ...rows.map((row, index) => sheetRow(columns.map((column) => column.value(row)), index + 2)),
+    "</sheetData></worksheet>",
+  ].join("");
+
+  return createZip([
+    ...Object.entries(XLSX_PARTS).map(([name, content]) => ({ name, content })),
+    { name: "xl/worksheets/sheet1.xml", content: sheet },
+  ]);
+}
+
+export function toJson(rows: ExportRow[]): string {
+  return JSON.stringify(
+    rows.map(({ receipt, bill }) => ({ receipt, ...bill })),
+    null,
+    2
+  );
+}
+
+export interface PurposeSubtotal {
+  purpose: Purpose;
+  currency: string;
+  count: number;
+  total: number;
+}
+
+/** Sums bills per purpose and currency; amounts in different currencies are never added together. */
+export function subtotalsByPurpose(rows: ExportRow[]): PurposeSubtotal[] {
+  const groups = new Map<string, PurposeSubtotal>();
+
+  for (const { bill } of rows) {
+    const currency = bill.currency ?? "—";
+    const key = `${bill.purpose}|${currency}`;
+    const group = groups.get(key) ?? { purpose: bill.purpose, currency, count: 0, total: 0 };
+    group.count += 1;
+    group.total += bill.amount_value ?? 0;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.purpose.localeCompare(b.purpose));
+}
+
+/** Self-contained HTML expense report, laid out for printing or "Save as PDF". */
+export function toExpenseReportHtml(rows: ExportRow[], title = "Expense Report"): string {
+  const money = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+  const subtotals = subtotalsByPurpose(rows);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { margin: 0 0 0.25rem; }
+  .meta { color: #64748b; margin-bottom: 1.5rem; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 2rem; font-size: 0.875rem; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 0.4rem 0.5rem; text-align: left; }
+  td.num, th.num { text-align: right; }
+  .receipts { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+  figure { margin: 0; break-inside: avoid; }
+  figure img { width: 100%; border: 1px solid #e2e8f0; border-radius: 4px; }
+  figcaption { font-size: 0.75rem; color: #64748b; }
+  @media print { body { margin: 0; } .receipts { page-break-before: always; } }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p class="meta">Generated ${new Date().toLocaleString()} · ${rows.length} bill${rows.length === 1 ? "" : "s"}</p>
+
+<h2>Expenses</h2>
+<table>
+<thead><tr><th>#</th><th>Date</th><th>Merchant</th><th>Bill Number</th><th>Purpose</th><th class="num">Amount</th><th>Currency</th></tr></thead>
+<tbody>
+${rows
+  .map(
+    ({ bill }, index) =>
+      `<tr><td>${index + 1}</td><td>${escapeXml(bill.date ?? "—")}</td><td>${escapeXml(bill.merchant_name ?? "—")}</td><td>${escapeXml(bill.bill_no)}</td><td>${escapeXml(bill.purpose)}</td><td class="num">${money(bill.amount_value)}</td><td>${escapeXml(bill.currency ?? "—")}</td></tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>
+
+<h2>Subtotals by Purpose</h2>
+<table>
+<thead><tr><th>Purpose</th><th class="num">Bills</th><th class="num">Total</th><th>Currency</th></tr></thead>
+<tbody>
+${subtotals
+  .map(
+    (group) =>
+      `<tr><td>${escapeXml(group.purpose)}</td><td class="num">${group.count}</td><td class="num">${money(group.total)}</td><td>${escapeXml(group.currency)}</td></tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>
+
+<h2>Receipts</h2>
+<div class="receipts">
+${rows
+  .map(({ receipt, bill, thumbnail }, index) =>
+    thumbnail
+      ? `<figure><img src="${thumbnail}" alt="" /><figcaption>#${index + 1} · ${escapeXml(receipt)} · page ${bill.page}</figcaption></figure>`
+      : `<figure><figcaption>#${index + 1} · ${escapeXml(receipt)} · page ${bill.page} (no preview)</figcaption></figure>`
+  )
+  .join("\n")}
+</div>
+</body>
+</html>`;
+}
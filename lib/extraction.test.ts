@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { runExtraction } from "@/lib/extraction";
+import { createMemoryFingerprintStore, setFingerprintStore } from "@/lib/fingerprint-store";
+import type { ExtractionRequest } from "@/lib/upload";
+import { createMemoryUsageSink, setUsageSink } from "@/lib/usage-sink";
+
+const receipt = (uploadId?: string): ExtractionRequest => ({
+  bytes: new Uint8Array([0xff, 0xd8, 0xff, 0xe0, ...new Array(100).fill(7), 0xff, 0xd9]),
+  mimeType: "image/jpeg",
+  provider: "mock",
+  upload_id: uploadId,
+});
+
+describe("duplicate detection", () => {
+  beforeEach(() => {
+    setFingerprintStore(createMemoryFingerprintStore());
+    setUsageSink(createMemoryUsageSink());
+  });
+
+  test("flags a second upload of the same file by the same client", async () => {
+    await runExtraction(receipt("first"), "key:reporting");
+    const { duplicates } = await runExtraction(receipt("second"), "key:reporting");
+
+    assert.deepEqual(
+      duplicates.map((match) => match.kind),
+      ["exact_image"]
+    );
+  });
+
+  test("never matches another client's receipts", async () => {
+    await runExtraction(receipt("first"), "key:reporting");
+    const { duplicates, needs_review } = await runExtraction(receipt("first"), "key:batch");
+
+    assert.deepEqual(duplicates, []);
+    assert.equal(needs_review, false);
+  });
+
+  test("does not flag a retry of the same upload as a duplicate of itself", async () => {
+    await runExtraction(receipt("upload-1"), "key:reporting");
+    const retry = await runExtraction(receipt("upload-1"), "key:reporting");
+
+    assert.deepEqual(retry.duplicates, []);
+  });
+});
@@ -0,0 +1,316 @@
+import type { LanguageModelUsage } from "ai";
+import { ApiError } from "@/lib/api-error";
+import { getCategorySet } from "@/lib/categories";
+import { billKey, findDuplicates, sha256Hex, type DuplicateMatch } from "@/lib/duplicates";
+import { isPdf } from "@/lib/expense";
+import { getFingerprintStore } from "@/lib/fingerprint-store";
+import { evaluatePolicy, getPolicy, type PolicyResult } from "@/lib/policy";
+import { postProcessBill, type ProcessedBill } from "@/lib/postprocess";
+import {
+  addUsage,
+  DEFAULT_RESILIENCE,
+  extractWithFallback,
+  FallbackChainError,
+  getProviderChain,
+  type PartialBill,
+  type ChainResult,
+  type ProviderAttempt,
+  type ProviderError,
+} from "@/lib/providers";
+import { extractionCacheKey, getResultCache, type CacheStatus } from "@/lib/result-cache";
+import type { ExtractionRequest } from "@/lib/upload";
+import { budgetStatus, estimateCost, type UsageRecord } from "@/lib/usage";
+import { getDailyBudget, getUsageSink } from "@/lib/usage-sink";
+
+/** Pipeline stages reported to streaming clients, in order. */
+export const EXTRACTION_STAGES = ["validated", "model_called", "post_processed"] as const;
+
+export type ExtractionStage = (typeof EXTRACTION_STAGES)[number];
+
+export interface StageEvent {
+  stage: ExtractionStage;
+  /** For `model_called`: which provider, and which try of it. */
+  provider?: string;
+  attempt?: number;
+}
+
+export interface ExtractionResponse {
+  success: true;
+  extraction_id: string;
+  data: ProcessedBill;
+  bills: ProcessedBill[];
+  needs_review: boolean;
+  duplicates: DuplicateMatch[];
+  policy: PolicyResult;
+  provider: string;
+  attempts: ProviderAttempt[];
+  /** Language of the document as the extractor detected it, from its first bill. */
+  language: string | null;
+  /** The requested output language, or null when fields are as printed. */
+  output_language: string | null;
+  /** Whether the provider's answer came from the result cache. */
+  cache: CacheStatus;
+  usage: Pick<UsageRecord, "model" | "input_tokens" | "output_tokens" | "cost_usd" | "latency_ms">;
+}
+
+export interface ExtractionHooks {
+  /** Aborts provider calls, e.g. when the client disconnects. */
+  signal?: AbortSignal;
+  onStage?: (event: StageEvent) => void;
+  onPartial?: (bills: PartialBill[]) => void;
+}
+
+/** Maps the last provider failure of a chain to the API's error envelope. */
+function providerApiError(error: ProviderError, attempts: ProviderAttempt[]): ApiError {
+  const extra = { details: error.message, attempts };
+
+  switch (error.kind) {
+    case "auth":
+      return new ApiError(401, "invalid_api_key", "Invalid API key. Please check your GOOGLE_GEMINI_API_KEY in .env.local", {
+        ...extra,
+        instructions: "Get a new API key from https://aistudio.google.com/apikey",
+      });
+    case "rate_limit":
+      return new ApiError(429, "rate_limited", "API rate limit exceeded. Please try again later or upgrade your plan.", extra);
+    case "timeout":
+      return new ApiError(504, "timeout", "The extraction provider took too long to respond", extra);
+    case "aborted":
+      // 499 is the de facto "client closed request" status; the client won't see it.
+      return new ApiError(499, "cancelled", "The request was cancelled", extra);
+    case "transient":
+      return new ApiError(503, "provider_unavailable", "The extraction provider is temporarily unavailable", {
+        ...extra,
+        suggestion: "Please try again or use Basic OCR mode",
+      });
+    default:
+      return new ApiError(500, "extraction_failed", "Failed to process image with the extraction provider", {
+        ...extra,
+        suggestion: "Please try again or use Basic OCR mode",
+      });
+  }
+}
+
+/** Any error thrown while extracting, as the ApiError the client should see. */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof FallbackChainError) {
+    const apiError = providerApiError(error.lastError, error.attempts);
+    if (error.lastError.retryAfterMs !== undefined) {
+      apiError.headers["Retry-After"] = String(Math.ceil(error.lastError.retryAfterMs / 1000));
+    }
+    return apiError;
+  }
+
+  return new ApiError(500, "extraction_failed", "Failed to process image with the extraction provider", {
+    details: error instanceof Error ? error.message : "Unknown error",
+    suggestion: "Please try again or use Basic OCR mode",
+  });
+}
+
+/** Refuses the request with a 429 once today's spend has reached DAILY_BUDGET_USD. */
+export async function assertWithinBudget(now = new Date()) {
+  const limit = getDailyBudget();
+  if (limit === undefined) return;
+
+  const budget = budgetStatus(await getUsageSink().spentToday(now), limit, now);
+  if (!budget.exhausted) return;
+
+  const error = new ApiError(429, "budget_exceeded", "The daily extraction budget has been used up", {
+    budget,
+    suggestion: "Try again after the budget resets, or use Basic OCR mode",
+  });
+  error.headers["Retry-After"] = String(Math.ceil((Date.parse(budget.resets_at) - now.getTime()) / 1000));
+  throw error;
+}
+
+/** What a run got as far as, for its usage record. */
+interface ExtractionTrace {
+  result: ChainResult | null;
+  cache: CacheStatus | null;
+}
+
+/** What every provider call of a run cost, failed ones included; null when none of their models has a price. */
+function callsCost(calls: ProviderAttempt[]): number | null {
+  const costs = calls.map((call) => estimateCost(call.model, call.usage)).filter((cost) => cost !== null);
+  return costs.length > 0 ? Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 1e8) / 1e8 : null;
+}
+
+function usageRecord(
+  id: string,
+  startedAt: number,
+  department: string | undefined,
+  { result, cache }: ExtractionTrace,
+  error: unknown
+): UsageRecord {
+  const apiError = error ? toApiError(error) : null;
+  const lastAttempt = error instanceof FallbackChainError ? error.attempts.at(-1) : undefined;
+  const calls = result?.attempts ?? (error instanceof FallbackChainError ? error.attempts : []);
+  const usage = calls.reduce<LanguageModelUsage | undefined>((sum, call) => addUsage(sum, call.usage), undefined);
+
+  return {
+    id,
+    timestamp: new Date(startedAt).toISOString(),
+    provider: result?.provider ?? lastAttempt?.provider ?? null,
+    model: result?.model ?? null,
+    department: department ?? null,
+    outcome: apiError?.code ?? "success",
+    status: apiError?.status ?? 200,
+    input_tokens: usage?.inputTokens ?? null,
+    output_tokens: usage?.outputTokens ?? null,
+    total_tokens: usage?.totalTokens ?? null,
+    // A cache hit calls nothing, and costs nothing.
+    cost_usd: calls.length === 0 && result ? estimateCost(result.model, undefined) : callsCost(calls),
+    latency_ms: Date.now() - startedAt,
+    attempts: calls.reduce((sum, attempt) => sum + attempt.attempts, 0),
+    cache,
+  };
+}
+
+// Accounting must never fail the extraction it describes.
+const recordUsage = (record: UsageRecord) =>
+  getUsageSink()
+    .write(record)
+    .catch((error) => console.error("Failed to record usage:", error));
+
+// A broken cache only costs a provider call.
+const logCacheError = (error: unknown) => {
+  console.error("Result cache error:", error);
+  return null;
+};
+
+async function extract(
+  {
+    bytes,
+    mimeType,
+    provider: providerId,
+    department,
+    perceptual_hash: perceptualHash,
+    upload_id: uploadId,
+    output_language: outputLanguage,
+    force,
+  }: ExtractionRequest,
+  clientId: string,
+  { signal, onStage, onPartial }: ExtractionHooks,
+  extractionId: string,
+  trace: ExtractionTrace
+): Promise<Omit<ExtractionResponse, "usage">> {
+  const chain = getProviderChain(providerId, { pdf: isPdf(mimeType) });
+  const categories = getCategorySet(department);
+
+  if (isPdf(mimeType) && !chain[0].supportsPdf) {
+    throw new ApiError(415, "unsupported_media_type", `The ${chain[0].id} provider does not support PDF documents`);
+  }
+
+  const cache = getResultCache();
+  const cacheKey = extractionCacheKey(bytes, chain[0], categories, outputLanguage);
+  trace.cache = cache && !force ? "miss" : "bypass";
+  const cached = cache && !force ? await cache.get(cacheKey).catch(logCacheError) : null;
+
+  if (cached) {
+    trace.cache = "hit";
+    onPartial?.(cached.bills);
+  }
+
+  const chainResult: ChainResult = cached
+    ? { bills: cached.bills, model: cached.model, provider: cached.provider, attempts: [] }
+    : await extractWithFallback(
+      chain,
+      {
+        image: `data:${mimeType};base64,${Buffer.from(bytes).toString("base64")}`,
+        mimeType,
+        categories,
+        outputLanguage,
+        onPartial,
+      },
+      {
+        ...DEFAULT_RESILIENCE,
+        signal,
+        onAttempt: (attemptProvider, attempt) => onStage?.({ stage: "model_called", provider: attemptProvider, attempt }),
+      }
+    );
+
+  trace.result = chainResult;
+  const { bills: extractedBills, provider, attempts } = chainResult;
+
+  if (!extractedBills || extractedBills.length === 0) {
+    throw new ApiError(500, "extraction_failed", "Failed to extract data from image");
+  }
+
+  // Only the requested provider's own answers are cached; a fallback's would stand in for it on later hits.
+  if (cache && !cached && provider === chain[0].id) {
+    const entry = { bills: extractedBills, provider, model: chainResult.model, usage: chainResult.usage, created_at: new Date().toISOString() };
+    await cache.set(cacheKey, entry).catch(logCacheError);
+  }
+
+  const bills = extractedBills.map((bill) => postProcessBill(bill, { categories }));
+
+  // The server can't decode images, so the perceptual hash is only compared when the client sends one.
+  const fingerprint = {
+    sha256: await sha256Hex(bytes),
+    perceptual_hash: perceptualHash ?? null,
+    bills: bills.map(billKey),
+  };
+  const fingerprints = getFingerprintStore();
+  const earlier = (await fingerprints.list(clientId)).filter((receipt) => !uploadId || receipt.upload_id !== uploadId);
+  const duplicates = findDuplicates(fingerprint, earlier);
+  await fingerprints.add(clientId, {
+    id: extractionId,
+    upload_id: uploadId ?? null,
+    label: bills[0].merchant_name || `Bill ${bills[0].bill_no}`,
+    created_at: new Date().toISOString(),
+    fingerprint,
+  });
+
+  onStage?.({ stage: "post_processed" });
+
+  return {
+    success: true,
+    extraction_id: extractionId,
+    data: bills[0],
+    bills,
+    needs_review: bills.some((bill) => bill.needs_review) || duplicates.length > 0,
+    duplicates,
+    policy: evaluatePolicy(bills, getPolicy(department)),
+    provider,
+    attempts,
+    language: bills[0].language ?? null,
+    output_language: outputLanguage ?? null,
+    cache: trace.cache,
+  };
+}
+
+/**
+ * The extraction pipeline behind `/api/extract`: provider chain, post-processing,
+ * duplicate detection and policy checks, for an already validated request.
+ * Duplicates are only looked for among `clientId`'s earlier uploads.
+ * Every call is written to the usage sink, whether it succeeds or not.
+ */
+export async function runExtraction(
+  request: ExtractionRequest,
+  clientId: string,
+  hooks: ExtractionHooks = {}
+): Promise<ExtractionResponse> {
+  const extractionId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const trace: ExtractionTrace = { result: null, cache: null };
+
+  try {
+    const response = await extract(request, clientId, hooks, extractionId, trace);
+    const record = usageRecord(extractionId, startedAt, request.department, trace, null);
+    await recordUsage(record);
+    return {
+      ...response,
+      usage: {
+        model: record.model,
+        input_tokens: record.input_tokens,
+        output_tokens: record.output_tokens,
+        cost_usd: record.cost_usd,
+        latency_ms: record.latency_ms,
+      },
+    };
+  } catch (error) {
+    await recordUsage(usageRecord(extractionId, startedAt, request.department, trace, error));
+    throw error;
+  }
+}
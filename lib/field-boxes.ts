@@ -0,0 +1,119 @@
+import { BOX_FIELDS, type BoundingBox, type BoxField, type FieldBoxes, type ModelBoxes, type StructuredData } from "@/lib/expense";
+
+/** A recognized word with its pixel bounds, as reported by Tesseract. */
+export interface OcrWord {
+  text: string;
+  /** Index of the text line the word is on; matches never span lines. */
+  line: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Model boxes as they stream in: any box may still be missing numbers. */
+export type PartialModelBoxes = { [K in keyof ModelBoxes]?: (number | undefined)[] | null };
+
+/** Converts the model's `[ymin, xmin, ymax, xmax]` boxes on a 0–1000 scale; incomplete or malformed boxes are dropped. */
+export function fromModelBoxes(boxes: PartialModelBoxes | undefined): FieldBoxes {
+  const result: FieldBoxes = {};
+
+  for (const field of BOX_FIELDS) {
+    const box = boxes?.[field];
+    if (!box || box.length !== 4 || !box.every((value) => typeof value === "number")) continue;
+
+    const [ymin, xmin, ymax, xmax] = (box as number[]).map((value) => clamp(value / 1000));
+    if (xmax > xmin && ymax > ymin) {
+      result[field] = { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+    }
+  }
+  return result;
+}
+
+// Punctuation, currency symbols and spacing differ between the value and the OCR text.
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+/** Ways the value may be printed, normalized. Dates are extracted as YYYY-MM-DD but printed in many orders. */
+function printedForms(field: BoxField, value: string): string[] {
+  const forms = [normalize(value)];
+
+  const date = field === "date" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (date) {
+    const [, year, month, day] = date;
+    forms.push(`${day}${month}${year}`, `${month}${day}${year}`, `${day}${month}${year.slice(2)}`, `${month}${day}${year.slice(2)}`);
+  }
+  // "1,250.00" is often printed as "1250".
+  if (field === "amount") forms.push(normalize(value.replace(/[.,]00$/, "")));
+
+  return [...new Set(forms)].filter((form) => form.length >= 2);
+}
+
+/**
+ * Consecutive words on one line whose text spells out one of `targets`. Amounts
+ * are matched from the bottom up, because the total usually repeats a subtotal above it.
+ */
+function findWords(words: OcrWord[], targets: string[], fromEnd: boolean): OcrWord[] | null {
+  if (targets.length === 0) return null;
+  const longest = Math.max(...targets.map((target) => target.length));
+
+  const contains = (text: string) => targets.some((target) => text.includes(target));
+
+  const matches: OcrWord[][] = [];
+  for (let start = 0; start < words.length; start++) {
+    let text = "";
+    for (let end = start; end < words.length && words[end].line === words[start].line; end++) {
+      text += normalize(words[end].text);
+      if (contains(text)) {
+        // Leave it to a later start when the first word is only a label such as "Invoice No:".
+        if (end === start || !contains(text.slice(normalize(words[start].text).length))) {
+          matches.push(words.slice(start, end + 1));
+        }
+        break;
+      }
+      if (text.length >= longest + 8) break;
+    }
+  }
+
+  if (matches.length === 0) return null;
+  return fromEnd ? matches[matches.length - 1] : matches[0];
+}
+
+/** The smallest box around a group of words, as fractions of the image size. */
+export function wordsBox(words: OcrWord[], { width, height }: ImageSize): BoundingBox {
+  const x0 = Math.min(...words.map((word) => word.bbox.x0));
+  const y0 = Math.min(...words.map((word) => word.bbox.y0));
+  const x1 = Math.max(...words.map((word) => word.bbox.x1));
+  const y1 = Math.max(...words.map((word) => word.bbox.y1));
+
+  return { x: clamp(x0 / width), y: clamp(y0 / height), width: clamp((x1 - x0) / width), height: clamp((y1 - y0) / height) };
+}
+
+/** Locates each extracted value among the OCR words; values that can't be found get no box. */
+export function locateFields(
+  data: Pick<StructuredData, BoxField>,
+  words: OcrWord[],
+  size: ImageSize
+): FieldBoxes {
+  const result: FieldBoxes = {};
+
+  for (const field of BOX_FIELDS) {
+    const value = data[field];
+    if (!value || value === "N/A" || value === "0") continue;
+
+    const match = findWords(words, printedForms(field, value), field === "amount");
+    if (match) result[field] = wordsBox(match, size);
+  }
+  return result;
+}
+
+/** Pixel rectangle of a box on an image, for cropping or OCR of just that region. */
+export const toPixels = (box: BoundingBox, { width, height }: ImageSize) => ({
+  left: Math.round(box.x * width),
+  top: Math.round(box.y * height),
+  width: Math.max(1, Math.round(box.width * width)),
+  height: Math.max(1, Math.round(box.height * height)),
+});
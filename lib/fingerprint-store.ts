@@ -0,0 +1,45 @@
+import type { FingerprintedReceipt } from "@/lib/duplicates";
+
+/**
+ * Server-side record of earlier extractions, used for duplicate detection.
+ * Receipts are kept per scope, the API client that uploaded them, so one
+ * client's duplicates never reveal another's receipts.
+ */
+export interface FingerprintStore {
+  list(scope: string): Promise<FingerprintedReceipt[]>;
+  add(scope: string, receipt: FingerprintedReceipt): Promise<void>;
+}
+
+// Oldest entries are dropped past this, so a long-running server doesn't grow without bound.
+const MAX_ENTRIES = 10_000;
+
+export function createMemoryFingerprintStore(maxEntries = MAX_ENTRIES): FingerprintStore {
+  // One list for all scopes, so the cap applies to the store as a whole.
+  const receipts: { scope: string; receipt: FingerprintedReceipt }[] = [];
+
+  return {
+    async list(scope) {
+      return receipts.filter((entry) => entry.scope === scope).map((entry) => entry.receipt);
+    },
+    async add(scope, receipt) {
+      receipts.push({ scope, receipt });
+      if (receipts.length > maxEntries) {
+        receipts.splice(0, receipts.length - maxEntries);
+      }
+    },
+  };
+}
+
+let store: FingerprintStore | null = null;
+
+/** Process-wide store. Fingerprints are lost on restart; swap in a persistent store to keep them. */
+export function getFingerprintStore(): FingerprintStore {
+  if (!store) {
+    store = createMemoryFingerprintStore();
+  }
+  return store;
+}
+
+export function setFingerprintStore(next: FingerprintStore) {
+  store = next;
+}
@@ -0,0 +1,36 @@
+import { billKey, differenceHash, HASH_HEIGHT, HASH_WIDTH, sha256Hex, type ReceiptFingerprint } from "@/lib/duplicates";
+import { isPdf, type ExtractedBill } from "@/lib/expense";
+
+/** Perceptual hash of an image file, drawn on a canvas. Returns null for PDFs or undecodable files. */
+export async function perceptualHash(file: Blob): Promise<string | null> {
+  if (isPdf(file.type)) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement("canvas");
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+
+    context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const gray = Array.from({ length: HASH_WIDTH * HASH_HEIGHT }, (_, i) =>
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    );
+    return differenceHash(gray);
+  } catch {
+    return null;
+  }
+}
+
+/** Fingerprint of a receipt in the browser, for matching against saved history. */
+export async function fingerprintFile(file: Blob, bills: ExtractedBill[]): Promise<ReceiptFingerprint> {
+  return {
+    sha256: await sha256Hex(await file.arrayBuffer()),
+    perceptual_hash: await perceptualHash(file),
+    bills: bills.map(billKey),
+  };
+}
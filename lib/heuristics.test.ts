@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { extractFieldsFromText } from "@/lib/heuristics";
+
+describe("extractFieldsFromText", () => {
+  test("reads amounts with the detected language's decimal separator", () => {
+    const fields = extractFieldsFromText("Bäckerei Müller\nRechnung Nr. 4711\nDatum 14.03.2024\nZwischensumme 1.100\nSumme 1.234\nVielen Dank");
+
+    assert.equal(fields.language, "de");
+    assert.equal(fields.amount_value, 1234);
+    assert.equal(fields.subtotal, 1100);
+    assert.equal(fields.date, "2024-03-14");
+  });
+
+  test("keeps a dot as the decimal separator in English receipts", () => {
+    const fields = extractFieldsFromText("Cafe Coffee Day\nBill No: 1042\nTotal 1.50\nThank you");
+
+    assert.equal(fields.amount_value, 1.5);
+  });
+});
@@ -0,0 +1,179 @@
+import { parseNumber } from "@/lib/amount";
+import { classifyByKeywords, getCategorySet, type CategorySet } from "@/lib/categories";
+import type { PaymentMethod, StructuredData } from "@/lib/expense";
+import { DEFAULT_LOCALE, detectLanguage, localeConventions, parseLocalDate, resolveLocale, toAsciiDigits } from "@/lib/locale";
+
+// Text heuristics are less reliable than a vision model; found values start here.
+const HEURISTIC_CONFIDENCE = 0.6;
+
+// Ordered from most to least specific; the first label found wins.
+const TOTAL_LABELS = [
+  /grand\s*total/i,
+  /net\s*(?:amount|payable|total)/i,
+  /amount\s*(?:payable|paid|due)/i,
+  /balance\s*due/i,
+  /\btotal\b/i,
+  // German, French, Spanish, Italian, Japanese, Chinese, Hindi and Bengali totals.
+  /gesamt(?:betrag)?|\bsumme\b|zu\s*zahlen|montant\s*(?:total|d[uû])|\bttc\b|importe\s*total|\btotale\b/i,
+  /合計|合计|総額|お会計|कुल|योग|মোট/,
+];
+
+const SUBTOTAL_PATTERN = /sub\s*-?\s*total|zwischensumme|sous-total|小計|小计/i;
+
+const BILL_NO_PATTERN =
+  /\b(?:invoice|receipt|bill|order|transaction|txn|ref(?:erence)?)\s*(?:no\.?|number|num|#|id)?\s*[:#.\-]?\s*([A-Z0-9][A-Z0-9/\-]*\d[A-Z0-9/\-]*)/i;
+
+// Grouping and decimal separators may be either "," or "." (1,234.50 or 1.234,50).
+const MONEY_PATTERN =
+  /((?:₹|Rs\.?|INR|\$|€|£|¥)\s*)?(\d{1,3}(?:[,.]\d{2,3})+(?:[.,]\d{1,2})?|\d+[.,]\d{1,2}|\d+)(?:\s*(?:\/-|円))?/gi;
+
+// Dates such as 14.03.2024 would otherwise read as 1,403,202.
+const DATE_LIKE = /\b\d{1,4}[./-]\d{1,2}[./-]\d{2,4}\b/g;
+
+// `decimalComma` decides whether a lone "1.234" is a thousand (de-DE) or a fraction (en-IN).
+const findMoney = (line: string, decimalComma: boolean) =>
+  Array.from(line.replace(DATE_LIKE, " ").matchAll(MONEY_PATTERN)).map((match) => ({
+    text: `${match[1] ?? ""}${match[2]}`,
+    value: parseNumber(match[2], decimalComma) ?? 0,
+  }));
+
+export const findBillNo = (text: string): string => {
+  const match = text.match(BILL_NO_PATTERN);
+  return match ? match[1] : "N/A";
+};
+
+const findTotal = (text: string, decimalComma = false) => {
+  const lines = text.split(/\r?\n/);
+
+  for (const label of TOTAL_LABELS) {
+    for (const line of lines) {
+      if (!label.test(line) || SUBTOTAL_PATTERN.test(line)) continue;
+      const amounts = findMoney(line, decimalComma).filter((m) => m.value > 0);
+      if (amounts.length > 0) {
+        return amounts[amounts.length - 1];
+      }
+    }
+  }
+
+  // No labelled total; fall back to the largest currency-looking value.
+  const candidates = findMoney(text, decimalComma).filter((m) => m.value > 0 && /[₹$€£¥.,]|rs|inr/i.test(m.text));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((max, m) => (m.value > max.value ? m : max));
+};
+
+export const findAmount = (text: string): string => findTotal(text)?.text ?? "0";
+
+/**
+ * Reads one value from the text of a small region the user pointed at. Unlike
+ * a whole receipt, the region may hold the bare value without its label.
+ */
+export function readFieldFromSnippet(field: "bill_no" | "amount", text: string): string | null {
+  if (field === "amount") {
+    const labelled = findTotal(text);
+    const money = findMoney(text, false).filter((m) => m.value > 0);
+    return labelled?.text ?? money[money.length - 1]?.text ?? null;
+  }
+
+  const labelled = findBillNo(text);
+  if (labelled !== "N/A") return labelled;
+  const tokens = text.split(/\s+/).map((token) => token.replace(/^[^A-Z0-9]+|[^A-Z0-9]+$/gi, ""));
+  return tokens.filter((token) => /\d/.test(token)).sort((a, b) => b.length - a.length)[0] || null;
+}
+
+const GSTIN_PATTERN = /\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/;
+
+const CURRENCY_HINTS: [RegExp, string][] = [
+  [/₹|\bRs\.?|\bINR\b/i, "INR"],
+  [/€|\bEUR\b/i, "EUR"],
+  [/£|\bGBP\b/i, "GBP"],
+  [/\$|\bUSD\b/i, "USD"],
+];
+
+const PAYMENT_HINTS: [RegExp, PaymentMethod][] = [
+  [/\bupi\b|gpay|google pay|phonepe|bhim/i, "UPI"],
+  [/\b(?:card|visa|master\s?card|rupay|amex|debit|credit)\b/i, "Card"],
+  [/\bnet\s?banking\b|\bneft\b|\bimps\b/i, "Net Banking"],
+  [/\bwallet\b|paytm|amazon pay/i, "Wallet"],
+  [/\bcash\b/i, "Cash"],
+];
+
+const MERCHANT_SKIP = /^(?:tax\s+)?(?:invoice|receipt|bill|cash\s+memo|welcome|original|duplicate|copy)\b/i;
+
+/** Finds the first recognizable date, reading numeric dates in the order `locale` prints them. */
+export const findDate = (text: string, locale: string = DEFAULT_LOCALE): string | null => parseLocalDate(text, locale);
+
+export const findMerchantName = (text: string): string | null => {
+  const line = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .find((l) => /\p{L}.*\p{L}.*\p{L}/u.test(l) && !MERCHANT_SKIP.test(l));
+  return line || null;
+};
+
+export const findGstin = (text: string): string | null => text.toUpperCase().match(GSTIN_PATTERN)?.[0] ?? null;
+
+/** Returns the last money value on the first line matching `label`, e.g. "CGST @2.5%  12.50" -> 12.5. */
+export const findLabelledValue = (text: string, label: RegExp, decimalComma = false): number | null => {
+  const line = text.split(/\r?\n/).find((l) => label.test(l));
+  if (!line) return null;
+  const amounts = findMoney(line.replace(/\d+(?:[.,]\d+)?\s*%/g, ""), decimalComma);
+  return amounts.length > 0 ? amounts[amounts.length - 1].value : null;
+};
+
+export const findCurrency = (text: string): string | null =>
+  CURRENCY_HINTS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+export const findPaymentMethod = (text: string): PaymentMethod | null =>
+  PAYMENT_HINTS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+/**
+ * Builds the same structured shape the AI route returns, using plain-text
+ * heuristics over OCR output. Used by the offline Basic OCR mode. Native
+ * digits are read as ASCII, and dates and amounts as usual for the detected language.
+ */
+export const extractFieldsFromText = (ocrText: string, categories: CategorySet = getCategorySet()): StructuredData => {
+  const text = toAsciiDigits(ocrText);
+  const language = detectLanguage(ocrText);
+  const locale = resolveLocale(null, language);
+  const { decimalComma } = localeConventions(locale);
+  const total = findTotal(text, decimalComma);
+  const billNo = findBillNo(text);
+  const purpose = classifyByKeywords(text, categories);
+  const date = findDate(text, locale);
+  const merchantName = findMerchantName(ocrText);
+  const found = (value: unknown) => (value && value !== "N/A" ? HEURISTIC_CONFIDENCE : 0);
+
+  return {
+    bill_no: billNo,
+    amount: total?.text ?? "0",
+    purpose,
+    raw_text: ocrText,
+    date,
+    merchant_name: merchantName,
+    merchant_gstin: findGstin(text),
+    subtotal: findLabelledValue(text, SUBTOTAL_PATTERN, decimalComma),
+    taxes: {
+      cgst: findLabelledValue(text, /\bcgst\b/i, decimalComma),
+      sgst: findLabelledValue(text, /\b(?:sgst|utgst)\b/i, decimalComma),
+      igst: findLabelledValue(text, /\bigst\b/i, decimalComma),
+      other: findLabelledValue(text, /\b(?:vat|service\s*(?:charge|tax))\b/i, decimalComma),
+    },
+    tip: findLabelledValue(text, /\b(?:tip|gratuity)\b/i, decimalComma),
+    currency: findCurrency(text),
+    amount_value: total?.value ?? null,
+    payment_method: findPaymentMethod(text),
+    line_items: [],
+    language,
+    // Only the language is known; the locale would be a guess from it.
+    locale: null,
+    translated_to: null,
+    confidence: {
+      bill_no: found(billNo),
+      amount: found(total),
+      // The fallback category means no keyword matched, so it is barely a guess.
+      purpose: purpose === categories.fallback ? 0.3 : HEURISTIC_CONFIDENCE,
+      date: found(date),
+      merchant_name: found(merchantName),
+    },
+  };
+};
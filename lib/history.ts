@@ -0,0 +1,45 @@
+import type { FingerprintedReceipt } from "@/lib/duplicates";
+import type { Purpose } from "@/lib/expense";
+import type { ExpenseRecord } from "@/lib/storage";
+
+export interface HistoryFilter {
+  query: string;
+  purpose: Purpose | "";
+  /** Inclusive YYYY-MM-DD bounds; empty means unbounded. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTER: HistoryFilter = { query: "", purpose: "", from: "", to: "" };
+
+/** The date a record is filed under: the first bill's transaction date, else when it was saved. */
+export const recordDate = (record: ExpenseRecord) => record.bills[0]?.date ?? record.createdAt.slice(0, 10);
+
+/** Saved records in the shape `findDuplicates` compares against, leaving out `excludeId`. */
+export const fingerprintedRecords = (records: ExpenseRecord[], excludeId: string): FingerprintedReceipt[] =>
+  records.flatMap((record) =>
+    record.fingerprint && record.id !== excludeId
+      ? [{ id: record.id, label: record.fileName, created_at: record.createdAt, fingerprint: record.fingerprint }]
+      : []
+  );
+
+export function filterRecords(records: ExpenseRecord[], filter: HistoryFilter): ExpenseRecord[] {
+  const query = filter.query.trim().toLowerCase();
+
+  return records.filter((record) => {
+    if (filter.purpose && !record.bills.some((bill) => bill.purpose === filter.purpose)) return false;
+
+    const date = recordDate(record);
+    if (filter.from && date < filter.from) return false;
+    if (filter.to && date > filter.to) return false;
+
+    if (!query) return true;
+    const haystack = [
+      record.fileName,
+      ...record.bills.flatMap((bill) => [bill.bill_no, bill.amount, bill.merchant_name ?? "", bill.raw_text]),
+    ]
+      .join(" ")
+      .toLowerCase();
+    return haystack.includes(query);
+  });
+}
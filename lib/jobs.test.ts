@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { ApiError } from "@/lib/api-error";
+import type { ApiClient } from "@/lib/auth";
+import { createMemoryFingerprintStore, setFingerprintStore } from "@/lib/fingerprint-store";
+import { createMemoryJobStore, getJob, getJobStore, setJobStore, submitJob, type Job } from "@/lib/jobs";
+import type { ExtractionRequest } from "@/lib/upload";
+import { createMemoryUsageSink, setUsageSink } from "@/lib/usage-sink";
+import { deliverWebhook, signWebhook, verifyWebhook } from "@/lib/webhook";
+
+const SECRET = "whsec_test";
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** A local webhook receiver that answers with the given statuses in turn, then 200. */
+async function startReceiver(statuses: number[] = []) {
+  const received: Received[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      response.writeHead(statuses[received.length - 1] ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  return { url, received, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+const verify = ({ headers, body }: Received, now?: number) =>
+  verifyWebhook(
+    SECRET,
+    {
+      body,
+      signature: String(headers["x-webhook-signature"] ?? ""),
+      timestamp: String(headers["x-webhook-timestamp"] ?? ""),
+    },
+    now
+  );
+
+describe("webhook signatures", () => {
+  const now = Date.parse("2024-03-14T10:00:00.000Z");
+  const timestamp = now / 1000;
+  const body = '{"type":"job.succeeded"}';
+  const signature = `sha256=${signWebhook(SECRET, timestamp, body)}`;
+
+  test("accepts a fresh delivery signed with the shared secret", () => {
+    assert.equal(verifyWebhook(SECRET, { body, signature, timestamp: String(timestamp) }, now), true);
+  });
+
+  test("refuses a changed body, another secret or a missing prefix", () => {
+    assert.equal(verifyWebhook(SECRET, { body: body + " ", signature, timestamp: String(timestamp) }, now), false);
+    assert.equal(verifyWebhook("whsec_other", { body, signature, timestamp: String(timestamp) }, now), false);
+    assert.equal(verifyWebhook(SECRET, { body, signature: signature.slice(7), timestamp: String(timestamp) }, now), false);
+    assert.equal(verifyWebhook(SECRET, { body, signature: null, timestamp: String(timestamp) }, now), false);
+  });
+
+  test("refuses a delivery replayed after the tolerance", () => {
+    assert.equal(verifyWebhook(SECRET, { body, signature, timestamp: String(timestamp) }, now + 301_000), false);
+    assert.equal(verifyWebhook(SECRET, { body, signature, timestamp: "not-a-number" }, now), false);
+  });
+});
+
+describe("deliverWebhook", () => {
+  test("retries until the receiver accepts, signing every attempt with the same id", async () => {
+    const receiver = await startReceiver([500, 503]);
+    try {
+      const attempts: string[] = [];
+      const delivery = await deliverWebhook(
+        receiver.url,
+        { type: "job.succeeded" },
+        { secret: SECRET, id: "job-1", event: "job.succeeded", baseDelayMs: 1, onAttempt: (d) => void attempts.push(d.status) }
+      );
+
+      assert.equal(delivery.status, "delivered");
+      assert.equal(delivery.attempts, 3);
+      assert.deepEqual(attempts, ["pending", "pending", "delivered"]);
+      assert.ok(receiver.received.every((request) => verify(request)));
+      assert.deepEqual(new Set(receiver.received.map(({ headers }) => headers["x-webhook-id"])), new Set(["job-1"]));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  test("gives up after the last attempt", async () => {
+    const receiver = await startReceiver([500, 500]);
+    try {
+      const delivery = await deliverWebhook(receiver.url, {}, { secret: SECRET, id: "job-2", event: "job.failed", maxAttempts: 2, baseDelayMs: 1 });
+
+      assert.equal(delivery.status, "failed");
+      assert.equal(delivery.response_status, 500);
+      assert.equal(delivery.last_error, "Receiver answered 500");
+    } finally {
+      await receiver.close();
+    }
+  });
+});
+
+describe("jobs", () => {
+  const environment = { ...process.env };
+  const client: ApiClient = { id: "key:reporting", bucket: "key:reporting", kind: "key", name: "reporting" };
+  const other: ApiClient = { id: "key:batch", bucket: "key:batch", kind: "key", name: "batch" };
+  const receipt = (fill = 7): ExtractionRequest => ({
+    bytes: new Uint8Array([0xff, 0xd8, 0xff, 0xe0, ...new Array(100).fill(fill), 0xff, 0xd9]),
+    mimeType: "image/jpeg",
+    provider: "mock",
+  });
+
+  /** Polls until the job leaves the queue and finishes, or gives up after about two seconds. */
+  async function finished(id: string): Promise<Job> {
+    for (let tries = 0; tries < 200; tries++) {
+      const job = await getJob(id, client);
+      if (job?.finished_at && job.webhook?.status !== "pending") return job;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${id} didn't finish`);
+  }
+
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  before(async () => {
+    receiver = await startReceiver();
+    process.env.WEBHOOK_SECRET = SECRET;
+    process.env.WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+  });
+
+  beforeEach(() => {
+    setJobStore(createMemoryJobStore());
+    setFingerprintStore(createMemoryFingerprintStore());
+    setUsageSink(createMemoryUsageSink());
+  });
+
+  after(async () => {
+    process.env = environment;
+    await receiver.close();
+  });
+
+  test("runs a job, drops its document and sends a signed webhook", async () => {
+    const { job } = await submitJob(receipt(), { callback_url: receiver.url }, { client });
+    assert.equal(job.status, "queued");
+
+    const done = await finished(job.id);
+    assert.equal(done.status, "succeeded");
+    assert.equal(done.result?.success, true);
+    assert.equal(done.webhook?.status, "delivered");
+    assert.equal((await getJobStore().get(job.id))?.input, null);
+
+    const delivery = receiver.received.at(-1)!;
+    assert.equal(verify(delivery), true);
+    assert.equal(JSON.parse(delivery.body).job.id, job.id);
+  });
+
+  test("replays a resubmission with the same idempotency key", async () => {
+    const first = await submitJob(receipt(), {}, { client, idempotencyKey: "order-1" });
+    const second = await submitJob(receipt(), {}, { client, idempotencyKey: "order-1" });
+
+    assert.equal(second.replayed, true);
+    assert.equal(second.job.id, first.job.id);
+    await finished(first.job.id);
+  });
+
+  test("refuses a different request under a used idempotency key", async () => {
+    const { job } = await submitJob(receipt(), {}, { client, idempotencyKey: "order-2" });
+    const error = await submitJob(receipt(8), {}, { client, idempotencyKey: "order-2" }).catch((err) => err);
+
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 409);
+    await finished(job.id);
+  });
+
+  test("keeps idempotency keys and jobs per client", async () => {
+    const mine = await submitJob(receipt(), {}, { client, idempotencyKey: "order-3" });
+    const theirs = await submitJob(receipt(), {}, { client: other, idempotencyKey: "order-3" });
+
+    assert.notEqual(theirs.job.id, mine.job.id);
+    assert.equal(await getJob(mine.job.id, other), null);
+    await finished(mine.job.id);
+  });
+
+  test("refuses callbacks to hosts that aren't allowed", async () => {
+    const error = await submitJob(receipt(), { callback_url: "http://169.254.169.254/latest" }, { client }).catch((err) => err);
+
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 400);
+  });
+});
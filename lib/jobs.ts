@@ -0,0 +1,364 @@
+import { createHash } from "node:crypto";
+import { ApiError, errorBody } from "@/lib/api-error";
+import type { ApiClient } from "@/lib/auth";
+import { assertWithinBudget, runExtraction, toApiError, type ExtractionResponse } from "@/lib/extraction";
+import { createTaskQueue, type TaskQueue } from "@/lib/queue";
+import type { ExtractionRequest, JobOptions } from "@/lib/upload";
+import { areCallbacksEnabled, deliverWebhook, getWebhookSecret, isAllowedCallback, type WebhookDelivery } from "@/lib/webhook";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/** The error envelope `/api/extract` would have answered with, plus its HTTP status. */
+export type JobError = { status: number } & ReturnType<typeof errorBody>;
+
+/** What `/api/jobs/:id` returns and the webhook sends. */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  /** The job and its idempotency key are forgotten after this. */
+  expires_at: string;
+  /** The `/api/extract` response body, once succeeded. */
+  result: ExtractionResponse | null;
+  error: JobError | null;
+  webhook: WebhookDelivery | null;
+}
+
+/** A job with what only the server sees: its owner, idempotency key and, until it starts, the document. */
+export interface JobRecord {
+  job: Job;
+  client_id: string;
+  idempotency_key: string | null;
+  /** Hash of the document and options, to tell a retried submission from a different one with the same key. */
+  request_hash: string;
+  callback_url: string | null;
+  input: ExtractionRequest | null;
+}
+
+/**
+ * Idempotency keys are checked and claimed under a lock held in this process
+ * only; a store shared between instances must make `save` of a new key atomic itself.
+ */
+export interface JobStore {
+  get(id: string): Promise<JobRecord | null>;
+  findByIdempotencyKey(clientId: string, key: string): Promise<JobRecord | null>;
+  save(record: JobRecord): Promise<void>;
+}
+
+const idempotencyIndex = (clientId: string, key: string) => `${clientId}\n${key}`;
+
+/**
+ * Expired jobs are dropped when looked up, and swept whenever a job is saved.
+ * Unfinished jobs never expire, however long the queue is.
+ */
+export function createMemoryJobStore(): JobStore {
+  const records = new Map<string, JobRecord>();
+  const byIdempotencyKey = new Map<string, string>();
+
+  const isExpired = (record: JobRecord, now: number) =>
+    record.job.finished_at !== null && Date.parse(record.job.expires_at) <= now;
+
+  const remove = (record: JobRecord) => {
+    records.delete(record.job.id);
+    if (record.idempotency_key) byIdempotencyKey.delete(idempotencyIndex(record.client_id, record.idempotency_key));
+  };
+
+  const live = (record: JobRecord | undefined) => {
+    if (!record) return null;
+    if (!isExpired(record, Date.now())) return record;
+    remove(record);
+    return null;
+  };
+
+  return {
+    async get(id) {
+      return live(records.get(id));
+    },
+    async findByIdempotencyKey(clientId, key) {
+      const id = byIdempotencyKey.get(idempotencyIndex(clientId, key));
+      return id ? live(records.get(id)) : null;
+    },
+    async save(record) {
+      const now = Date.now();
+      for (const existing of records.values()) {
+        if (isExpired(existing, now)) remove(existing);
+      }
+      records.set(record.job.id, record);
+      if (record.idempotency_key) {
+        byIdempotencyKey.set(idempotencyIndex(record.client_id, record.idempotency_key), record.job.id);
+      }
+    },
+  };
+}
+
+let store: JobStore | null = null;
+
+/** Process-wide store. Jobs are lost on restart, including queued ones. */
+export function getJobStore(): JobStore {
+  if (!store) {
+    store = createMemoryJobStore();
+  }
+  return store;
+}
+
+export function setJobStore(next: JobStore) {
+  store = next;
+}
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** How long finished jobs are kept (JOB_TTL_SECONDS, default a day). */
+const jobTtlMs = () => numberFromEnv(process.env.JOB_TTL_SECONDS, 86_400) * 1000;
+
+/** How long a job may wait in the queue before it fails unrun (JOB_QUEUE_TIMEOUT_SECONDS, default 10 minutes). */
+const queueTimeoutMs = () => numberFromEnv(process.env.JOB_QUEUE_TIMEOUT_SECONDS, 600) * 1000;
+
+const expiresAt = (from: number) => new Date(from + jobTtlMs()).toISOString();
+
+async function update(record: JobRecord, patch: Partial<Job>, input: ExtractionRequest | null = record.input) {
+  const next = { ...record, job: { ...record.job, ...patch }, input };
+  await getJobStore().save(next);
+  return next;
+}
+
+async function sendWebhook(record: JobRecord) {
+  const secret = getWebhookSecret();
+  if (!record.callback_url || !secret) return;
+
+  let current = record;
+  await deliverWebhook(
+    record.callback_url,
+    { type: `job.${record.job.status}`, job: record.job },
+    {
+      secret,
+      id: record.job.id,
+      event: `job.${record.job.status}`,
+      onAttempt: async (webhook) => {
+        current = await update(current, { webhook });
+      },
+    }
+  );
+}
+
+const PENDING_WEBHOOK: Omit<WebhookDelivery, "url"> = {
+  status: "pending",
+  attempts: 0,
+  last_attempt_at: null,
+  response_status: null,
+  last_error: null,
+};
+
+const failure = (error: ApiError): Partial<Job> => ({ status: "failed", error: { status: error.status, ...errorBody(error) } });
+
+/**
+ * Saves the job's outcome, without its document, and sends the webhook. If the
+ * outcome can't be saved, the job is marked failed rather than left unfinished.
+ */
+async function finishJob(record: JobRecord, outcome: Partial<Job>) {
+  const finishedAt = Date.now();
+  const finish = (patch: Partial<Job>) =>
+    update(
+      record,
+      {
+        ...patch,
+        finished_at: new Date(finishedAt).toISOString(),
+        expires_at: expiresAt(finishedAt),
+        webhook: record.callback_url ? { ...PENDING_WEBHOOK, url: record.callback_url } : null,
+      },
+      null
+    );
+
+  let finished: JobRecord;
+  try {
+    finished = await finish(outcome);
+  } catch (error) {
+    console.error("Job Error:", error);
+    try {
+      finished = await finish(failure(new ApiError(500, "internal_error", "Failed to save the job's result")));
+    } catch (retryError) {
+      console.error("Job Error:", retryError);
+      return;
+    }
+  }
+
+  try {
+    await sendWebhook(finished);
+  } catch (error) {
+    console.error("Webhook Error:", error);
+  }
+}
+
+// Timeouts of queued jobs. Whichever of the worker and the timeout takes a job's entry first handles the job.
+const queueTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+function startQueueTimeout(id: string) {
+  const timeout = setTimeout(async () => {
+    queueTimeouts.delete(id);
+    const record = await getJobStore().get(id).catch(() => null);
+    if (record?.job.status !== "queued") return;
+    const seconds = Math.round(queueTimeoutMs() / 1000);
+    await finishJob(record, failure(new ApiError(504, "timeout", `The job waited in the queue for more than ${seconds} seconds`)));
+  }, queueTimeoutMs());
+  // Waiting jobs shouldn't keep a script from exiting.
+  timeout.unref?.();
+  queueTimeouts.set(id, timeout);
+}
+
+async function runJob(id: string) {
+  const timeout = queueTimeouts.get(id);
+  if (!timeout) return;
+  clearTimeout(timeout);
+  queueTimeouts.delete(id);
+
+  let current = await getJobStore().get(id);
+  const input = current?.input;
+  if (!current || !input) return;
+
+  let outcome: Partial<Job>;
+  try {
+    current = await update(current, { status: "running", started_at: new Date().toISOString() }, null);
+    // The budget may have run out while the job waited.
+    await assertWithinBudget();
+    outcome = { status: "succeeded", result: await runExtraction(input, current.client_id) };
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("Job Error:", error);
+    outcome = failure(toApiError(error));
+  }
+
+  await finishJob(current, outcome);
+}
+
+let queue: TaskQueue<string> | null = null;
+
+/** Jobs run JOB_CONCURRENCY (default 2) at a time; the rest wait in order. */
+const getQueue = () => {
+  if (!queue) {
+    queue = createTaskQueue(numberFromEnv(process.env.JOB_CONCURRENCY, 2), runJob);
+  }
+  return queue;
+};
+
+function requestHash({ bytes, ...options }: ExtractionRequest, { callback_url }: JobOptions): string {
+  return createHash("sha256")
+    .update(bytes)
+    .update(JSON.stringify({ ...options, callback_url: callback_url ?? null }))
+    .digest("hex");
+}
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export interface SubmitOptions {
+  client: ApiClient;
+  /** From the `Idempotency-Key` header. */
+  idempotencyKey?: string | null;
+}
+
+// Tails of the submissions in flight per idempotency key.
+const keyLocks = new Map<string, Promise<unknown>>();
+
+/** Runs `task` after earlier ones holding the same key, so concurrent retries can't both create a job. */
+async function withKeyLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const current = (keyLocks.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+  keyLocks.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (keyLocks.get(key) === current) keyLocks.delete(key);
+  }
+}
+
+async function createOrReplay(
+  input: ExtractionRequest,
+  options: JobOptions,
+  { client, idempotencyKey }: SubmitOptions
+): Promise<{ job: Job; replayed: boolean }> {
+  const hash = requestHash(input, options);
+  const jobs = getJobStore();
+
+  if (idempotencyKey) {
+    const existing = await jobs.findByIdempotencyKey(client.id, idempotencyKey);
+    if (existing) {
+      if (existing.request_hash !== hash) {
+        throw new ApiError(409, "idempotency_conflict", "This Idempotency-Key was already used for a different request", {
+          job_id: existing.job.id,
+        });
+      }
+      return { job: existing.job, replayed: true };
+    }
+  }
+
+  if (options.callback_url) {
+    if (!areCallbacksEnabled()) {
+      throw new ApiError(400, "invalid_request", "Callbacks are not enabled on this server (set WEBHOOK_SECRET and WEBHOOK_ALLOWED_HOSTS)");
+    }
+    if (!isAllowedCallback(options.callback_url)) {
+      throw new ApiError(400, "invalid_request", "callback_url points to a host that is not allowed");
+    }
+  }
+
+  const jobQueue = getQueue();
+  const limit = numberFromEnv(process.env.JOB_QUEUE_LIMIT, 100);
+  if (jobQueue.pending >= limit) {
+    const error = new ApiError(503, "queue_full", "Too many jobs are waiting. Please try again shortly.");
+    error.headers["Retry-After"] = "30";
+    throw error;
+  }
+
+  const now = Date.now();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    status: "queued",
+    created_at: new Date(now).toISOString(),
+    started_at: null,
+    finished_at: null,
+    // Renewed when the job finishes; it fails sooner if it waits too long to start.
+    expires_at: expiresAt(now),
+    result: null,
+    error: null,
+    webhook: null,
+  };
+
+  await jobs.save({
+    job,
+    client_id: client.id,
+    idempotency_key: idempotencyKey || null,
+    request_hash: hash,
+    callback_url: options.callback_url ?? null,
+    input,
+  });
+  startQueueTimeout(job.id);
+  jobQueue.enqueue(job.id);
+
+  return { job, replayed: false };
+}
+
+/**
+ * Queues an extraction and returns its job. A repeated submission with the
+ * same idempotency key returns the original job instead (`replayed`), as long
+ * as the document and options are the same; different ones are a 409.
+ */
+export async function submitJob(
+  input: ExtractionRequest,
+  options: JobOptions,
+  submit: SubmitOptions
+): Promise<{ job: Job; replayed: boolean }> {
+  const { client, idempotencyKey } = submit;
+  if (idempotencyKey === undefined || idempotencyKey === null) {
+    return createOrReplay(input, options, submit);
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+    throw new ApiError(400, "invalid_request", "Idempotency-Key must be 1-255 printable ASCII characters");
+  }
+  return withKeyLock(idempotencyIndex(client.id, idempotencyKey), () => createOrReplay(input, options, submit));
+}
+
+/** The job, if it exists, hasn't expired, and was submitted by `client`. */
+export async function getJob(id: string, client: ApiClient): Promise<Job | null> {
+  const record = await getJobStore().get(id);
+  return record && record.client_id === client.id ? record.job : null;
+}
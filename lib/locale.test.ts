@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseLocalDate, toIsoDate } from "@/lib/locale";
+
+describe("parseLocalDate", () => {
+  test("reads English month names under a non-English locale", () => {
+    assert.equal(parseLocalDate("Date: March 5, 2024", "de-DE"), "2024-03-05");
+    assert.equal(parseLocalDate("5 March 2024", "fr-FR"), "2024-03-05");
+    assert.equal(parseLocalDate("05-Sep-24", "ja-JP"), "2024-09-05");
+  });
+
+  test("still reads the locale's own month names", () => {
+    assert.equal(parseLocalDate("5. März 2024", "de-DE"), "2024-03-05");
+    assert.equal(parseLocalDate("12 févr. 2024", "fr-FR"), "2024-02-12");
+  });
+
+  test("reads numeric dates in the locale's order", () => {
+    assert.equal(parseLocalDate("05/03/2024", "en-IN"), "2024-03-05");
+    assert.equal(parseLocalDate("05/03/2024", "en-US"), "2024-05-03");
+  });
+
+  test("keeps looking past a match that isn't a date", () => {
+    assert.equal(parseLocalDate("Bill No 2024/13/42\nDate 2024/03/05", "en-IN"), "2024-03-05");
+    assert.equal(parseLocalDate("Ref 45/99/2024 on 05/03/2024", "en-IN"), "2024-03-05");
+  });
+
+  test("rejects days the month doesn't have", () => {
+    assert.equal(parseLocalDate("31/02/2024", "en-IN"), null);
+    assert.equal(parseLocalDate("February 30, 2024", "en-US"), null);
+  });
+});
+
+describe("toIsoDate", () => {
+  test("checks the day against the month", () => {
+    assert.equal(toIsoDate(2024, 2, 31), null);
+    assert.equal(toIsoDate(2023, 2, 29), null);
+    assert.equal(toIsoDate(2024, 2, 29), "2024-02-29");
+    assert.equal(toIsoDate(2024, 4, 31), null);
+    assert.equal(toIsoDate(24, 12, 31), "2024-12-31");
+  });
+});
@@ -0,0 +1,231 @@
+/** Receipts are read as Indian English unless they say otherwise. */
+export const DEFAULT_LOCALE = "en-IN";
+
+/** Languages offered for translated output, by ISO 639-1 code. */
+export const OUTPUT_LANGUAGES: Record<string, string> = {
+  en: "English",
+  hi: "Hindi",
+  bn: "Bengali",
+  ta: "Tamil",
+  ja: "Japanese",
+  zh: "Chinese",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+/** English name of a language code, e.g. "ja" -> "Japanese"; the code itself when unknown. */
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// Zero of each Unicode decimal digit block receipts are printed in.
+const DIGIT_ZEROS = [
+  0x0660, 0x06f0, 0x0966, 0x09e6, 0x0a66, 0x0ae6, 0x0b66, 0x0be6, 0x0c66, 0x0ce6, 0x0d66, 0x0e50, 0xff10,
+];
+
+const FULLWIDTH_PUNCTUATION: Record<string, string> = { "，": ",", "．": ".", "／": "/", "－": "-", "：": ":", "￥": "¥" };
+
+/** Replaces Devanagari, Bengali, Arabic, full-width and other native digits with ASCII ones. */
+export function toAsciiDigits(text: string): string {
+  return text
+    .replace(/\p{Nd}/gu, (digit) => {
+      const code = digit.codePointAt(0)!;
+      const zero = DIGIT_ZEROS.find((start) => code >= start && code <= start + 9);
+      return zero === undefined ? digit : String(code - zero);
+    })
+    .replace(/[，．／－：￥]/g, (char) => FULLWIDTH_PUNCTUATION[char]);
+}
+
+// Scripts used by a single language, or whose language is the sensible default.
+const SCRIPTS: [RegExp, string][] = [
+  [/[぀-ヿ]/gu, "ja"],
+  [/\p{Script=Hangul}/gu, "ko"],
+  [/\p{Script=Han}/gu, "zh"],
+  [/\p{Script=Devanagari}/gu, "hi"],
+  [/\p{Script=Bengali}/gu, "bn"],
+  [/\p{Script=Gurmukhi}/gu, "pa"],
+  [/\p{Script=Gujarati}/gu, "gu"],
+  [/\p{Script=Tamil}/gu, "ta"],
+  [/\p{Script=Telugu}/gu, "te"],
+  [/\p{Script=Kannada}/gu, "kn"],
+  [/\p{Script=Malayalam}/gu, "ml"],
+  [/\p{Script=Thai}/gu, "th"],
+  [/\p{Script=Arabic}/gu, "ar"],
+  [/\p{Script=Cyrillic}/gu, "ru"],
+  [/\p{Script=Greek}/gu, "el"],
+];
+
+// Words common on receipts in each Latin-script language.
+const LATIN_WORDS: [string, RegExp][] = [
+  ["de", /\b(?:summe|gesamt|betrag|mwst|ust|rechnung|quittung|bar|danke|datum|uhrzeit|steuer|netto|brutto)\b/giu],
+  ["fr", /\b(?:total|ttc|tva|facture|reçu|merci|montant|espèces|carte|prix|quantité|addition)\b/giu],
+  ["es", /\b(?:total|iva|factura|recibo|gracias|importe|efectivo|tarjeta|cantidad|precio|fecha)\b/giu],
+  ["it", /\b(?:totale|iva|fattura|scontrino|grazie|importo|contanti|carta|prezzo|quantità)\b/giu],
+  ["nl", /\b(?:totaal|btw|factuur|bon|bedankt|bedrag|contant|pin|prijs|aantal)\b/giu],
+  ["pt", /\b(?:total|iva|fatura|recibo|obrigado|valor|dinheiro|cartão|preço|quantidade)\b/giu],
+  ["en", /\b(?:total|tax|invoice|receipt|bill|thank|amount|cash|card|price|qty|date|subtotal|gst)\b/giu],
+];
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/**
+ * Guesses the language a receipt is printed in, as an ISO 639-1 code, from
+ * its script and, for Latin text, common receipt words. Null when there is
+ * too little text to tell.
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters < 3) return null;
+
+  // Japanese mixes kana with Han characters, so kana alone decides it.
+  const scripts = SCRIPTS.map(([pattern, language]) => [language, countMatches(text, pattern)] as const);
+  const kana = scripts[0][1];
+  const [language, count] = kana > 0 ? scripts[0] : scripts.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  if (count >= letters * 0.3) return language;
+
+  const latin = LATIN_WORDS.map(([code, words]) => [code, countMatches(text, words)] as const);
+  const [best, hits] = latin.reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+  return hits > 0 ? best : "en";
+}
+
+/** The locale to read dates and numbers with: the one given, else the usual one for the language. */
+export function resolveLocale(locale: string | null | undefined, language?: string | null): string {
+  for (const candidate of [locale, language === "en" ? DEFAULT_LOCALE : language]) {
+    if (!candidate) continue;
+    try {
+      const resolved = new Intl.Locale(candidate).maximize();
+      return resolved.region ? `${resolved.language}-${resolved.region}` : resolved.language;
+    } catch {
+      // Not a valid tag; try the next one.
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * The locale a bill's amounts and dates are printed in, from what the
+ * extractor reported; undefined when it reported neither locale nor language.
+ */
+export const receiptLocale = ({ locale, language }: { locale?: string | null; language?: string | null }) =>
+  locale || language ? resolveLocale(locale, language) : undefined;
+
+export type DateOrder = "DMY" | "MDY" | "YMD";
+
+export interface LocaleConventions {
+  /** "," separates decimals and "." groups thousands, as in de-DE. */
+  decimalComma: boolean;
+  /** Order of day, month and year in numeric dates. */
+  dateOrder: DateOrder;
+}
+
+export function localeConventions(locale: string): LocaleConventions {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === "decimal")?.value;
+  const order = new Intl.DateTimeFormat(locale, { year: "numeric", month: "2-digit", day: "2-digit" })
+    .formatToParts(new Date(Date.UTC(2024, 10, 22)))
+    .flatMap((part) => (part.type === "day" ? "D" : part.type === "month" ? "M" : part.type === "year" ? "Y" : []))
+    .join("");
+
+  return {
+    decimalComma: decimal === ",",
+    dateOrder: order === "MDY" || order === "YMD" ? order : "DMY",
+  };
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** YYYY-MM-DD, or null when the parts can't be a date, such as 31 February. Two-digit years are taken as 20xx. */
+export const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1) return null;
+  // Date rolls impossible days over into the next month.
+  if (new Date(Date.UTC(fullYear, month - 1, day)).getUTCMonth() !== month - 1) return null;
+  return `${fullYear}-${pad(month)}-${pad(day)}`;
+};
+
+const simplify = (word: string) => word.toLowerCase().replace(/\./g, "").normalize("NFC");
+
+/** Month names in the locale and, since many receipts print them so whatever the locale, in English; long and short. */
+function monthNames(locale: string): string[][] {
+  const formats = [locale, "en"].flatMap((language) =>
+    (["long", "short"] as const).map((month) => new Intl.DateTimeFormat(language, { month, timeZone: "UTC" }))
+  );
+
+  return Array.from({ length: 12 }, (_, month) => {
+    const date = new Date(Date.UTC(2024, month, 15));
+    return [...new Set(formats.map((format) => simplify(format.format(date))))];
+  });
+}
+
+/** 1-based month for a printed month name or a prefix of one (at least three letters); null when none or several match. */
+function findMonth(word: string, names: string[][]): number | null {
+  const target = simplify(word);
+  const exact = names.findIndex((forms) => forms.includes(target));
+  if (exact >= 0) return exact + 1;
+  if (target.length < 3) return null;
+
+  const prefixed = names.flatMap((forms, month) => (forms.some((form) => form.startsWith(target)) ? [month + 1] : []));
+  return prefixed.length === 1 ? prefixed[0] : null;
+}
+
+/**
+ * Finds the first recognizable date in printed text and returns it as
+ * YYYY-MM-DD. Numeric dates are read in the locale's order: 05/03/2024 is
+ * 5 March in en-IN and de-DE but 3 May in en-US. Month names may be in the
+ * locale's language or in English, and "2024年3月5日" style dates are understood.
+ * A match that isn't a real date, such as a bill number "2024/13/0042", is
+ * skipped and the search goes on.
+ */
+export function parseLocalDate(text: string, locale: string = DEFAULT_LOCALE): string | null {
+  const printed = toAsciiDigits(text);
+  const { dateOrder } = localeConventions(locale);
+  const names = monthNames(locale);
+
+  // Tried in order; each returns null for a match that isn't a date.
+  const patterns: [RegExp, (match: RegExpMatchArray) => string | null][] = [
+    [/(?<!\d)(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})(?!\d)/g, (match) => toIsoDate(+match[1], +match[2], +match[3])],
+    [
+      /(?<!\d)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/g,
+      (match) => {
+        const [first, second, last] = [+match[1], +match[2], +match[3]];
+        switch (dateOrder) {
+          case "MDY":
+            return toIsoDate(last, first, second);
+          // A four-digit year at the end overrides the locale; "24/03/05" is 2024-03-05 in ja-JP.
+          case "YMD":
+            return match[3].length === 2 ? toIsoDate(first, second, last) : toIsoDate(last, second, first);
+          default:
+            return toIsoDate(last, second, first);
+        }
+      },
+    ],
+    [
+      /(?<!\d)(\d{1,2})(?:st|nd|rd|th|\.)?[\s-]+(\p{L}{3,})\.?[\s,-]+(\d{4}|\d{2})(?!\d)/gu,
+      (match) => {
+        const month = findMonth(match[2], names);
+        return month ? toIsoDate(+match[3], month, +match[1]) : null;
+      },
+    ],
+    [
+      /(\p{L}{3,})\.?\s+(\d{1,2}),?\s+(\d{4})(?!\d)/gu,
+      (match) => {
+        const month = findMonth(match[1], names);
+        return month ? toIsoDate(+match[3], month, +match[2]) : null;
+      },
+    ],
+  ];
+
+  for (const [pattern, toDate] of patterns) {
+    for (const match of printed.matchAll(pattern)) {
+      const date = toDate(match);
+      if (date) return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ExtractedBill, LineItem } from "@/lib/expense";
+import { evaluatePolicy, type Policy } from "@/lib/policy";
+
+const nightly: Policy = {
+  rules: [{ id: "hotel-nightly", type: "amount_limit", category: "Hotel", max: 6000, currency: "INR", per: "night", severity: "warn" }],
+};
+
+const hotelBill = (amount: number, lineItems: LineItem[]): ExtractedBill => ({
+  bill_no: "H-1",
+  amount: `₹${amount}`,
+  purpose: "Hotel",
+  raw_text: "",
+  date: "2024-03-14",
+  merchant_name: "Hotel Residency",
+  merchant_gstin: null,
+  subtotal: null,
+  taxes: { cgst: null, sgst: null, igst: null, other: null },
+  tip: null,
+  currency: "INR",
+  amount_value: amount,
+  payment_method: null,
+  line_items: lineItems,
+  confidence: { bill_no: 1, amount: 1, purpose: 1, date: 1, merchant_name: 1 },
+  page: 1,
+});
+
+const item = (description: string, quantity: number, total: number): LineItem => ({
+  description,
+  quantity,
+  unit_price: total / quantity,
+  total,
+});
+
+describe("nightly limits", () => {
+  test("divide by the nights on the room line", () => {
+    const result = evaluatePolicy([hotelBill(15000, [item("Deluxe Room", 3, 15000)])], nightly);
+    assert.deepEqual(result.violations, []);
+  });
+
+  test("ignore quantities of other items", () => {
+    const bill = hotelBill(9000, [item("Deluxe Room", 1, 8700), item("Water", 6, 300)]);
+    const result = evaluatePolicy([bill], nightly);
+
+    assert.equal(result.violations.length, 1);
+    assert.match(result.violations[0].message, /for 1 night/);
+  });
+
+  test("count one night when no line is the room", () => {
+    const result = evaluatePolicy([hotelBill(9000, [item("Water", 6, 300), item("Laundry", 4, 8700)])], nightly);
+    assert.equal(result.violations.length, 1);
+  });
+});
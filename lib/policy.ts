@@ -0,0 +1,170 @@
+import { z } from "zod";
+import policyConfig from "@/config/policy.json";
+import { DEFAULT_DEPARTMENT, findCategory, getCategorySet } from "@/lib/categories";
+import type { ExtractedBill } from "@/lib/expense";
+
+export const POLICY_SEVERITIES = ["block", "warn"] as const;
+
+export type PolicySeverity = (typeof POLICY_SEVERITIES)[number];
+
+const ruleBase = {
+  id: z.string().min(1),
+  severity: z.enum(POLICY_SEVERITIES),
+  /** Replaces the generated message shown to the claimant. */
+  message: z.string().optional(),
+};
+
+export const policyRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...ruleBase,
+    type: z.literal("amount_limit"),
+    category: z.string(),
+    max: z.number().positive(),
+    /** Bills in another currency are not checked against this limit. */
+    currency: z.string().length(3),
+    /** "day" sums the category per date across a document; "night" divides by the room nights billed. */
+    per: z.enum(["bill", "day", "night"]).default("bill"),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("disallowed_categories"),
+    categories: z.array(z.string()).min(1),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("max_age_days"),
+    days: z.number().int().positive(),
+  }),
+]);
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+
+export const policySchema = z.object({
+  rules: z.array(policyRuleSchema),
+});
+
+export type Policy = z.infer<typeof policySchema>;
+
+export interface PolicyViolation {
+  rule_id: string;
+  severity: PolicySeverity;
+  message: string;
+  bill_index: number;
+}
+
+export interface PolicyResult {
+  violations: PolicyViolation[];
+  /** True when any violation is a hard block; the claim can't be filed as is. */
+  blocked: boolean;
+}
+
+const POLICIES: Record<string, Policy> = z.record(z.string(), policySchema).parse(policyConfig);
+
+// Catch typos in the policy file at startup rather than silently never matching.
+for (const [department, policy] of Object.entries(POLICIES)) {
+  const categories = getCategorySet(department);
+  for (const rule of policy.rules) {
+    const names = rule.type === "amount_limit" ? [rule.category] : rule.type === "disallowed_categories" ? rule.categories : [];
+    const unknown = names.find((name) => !findCategory(categories, name));
+    if (unknown) {
+      throw new Error(`Policy rule "${rule.id}" for ${department} names unknown category "${unknown}"`);
+    }
+  }
+}
+
+const EMPTY_POLICY: Policy = { rules: [] };
+
+/** Policy for a department (config/policy.json); departments without one have no rules. */
+export const getPolicy = (department = DEFAULT_DEPARTMENT): Policy => POLICIES[department] ?? EMPTY_POLICY;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const format = (value: number, currency: string) => `${currency} ${value.toFixed(2)}`;
+
+const ROOM_LINE = /\b(?:room|rooms|night|nights|lodging|accommodation|stay|suite|tariff)\b/i;
+
+/**
+ * Hotel bills list the room once with the number of nights as its quantity.
+ * Only that line counts; other items such as "Water x6" say nothing about the
+ * stay. One night when there is no room line or its quantity isn't a whole number.
+ */
+const nightsBilled = (bill: ExtractedBill) => {
+  const nights = bill.line_items.find((item) => ROOM_LINE.test(item.description))?.quantity;
+  return nights && Number.isInteger(nights) && nights > 0 ? nights : 1;
+};
+
+function checkAmountLimit(
+  rule: Extract<PolicyRule, { type: "amount_limit" }>,
+  bills: ExtractedBill[]
+): Omit<PolicyViolation, "rule_id" | "severity">[] {
+  const inScope = bills
+    .map((bill, index) => ({ bill, index }))
+    .filter(({ bill }) => bill.purpose === rule.category && bill.currency === rule.currency && bill.amount_value !== null);
+
+  if (rule.per === "day") {
+    const byDate = new Map<string, typeof inScope>();
+    for (const entry of inScope) {
+      if (entry.bill.date) {
+        byDate.set(entry.bill.date, [...(byDate.get(entry.bill.date) ?? []), entry]);
+      }
+    }
+    return [...byDate].flatMap(([date, group]) => {
+      const total = group.reduce((sum, { bill }) => sum + (bill.amount_value ?? 0), 0);
+      if (total <= rule.max) return [];
+      return group.map(({ index }) => ({
+        bill_index: index,
+        message: `${rule.category} on ${date} totals ${format(total, rule.currency)}, over the daily limit of ${format(rule.max, rule.currency)}`,
+      }));
+    });
+  }
+
+  return inScope.flatMap(({ bill, index }) => {
+    const nights = rule.per === "night" ? nightsBilled(bill) : 1;
+    const amount = (bill.amount_value ?? 0) / nights;
+    if (amount <= rule.max) return [];
+    return [{
+      bill_index: index,
+      message: rule.per === "night"
+        ? `${rule.category} is ${format(amount, rule.currency)} a night for ${nights} night(s), over the nightly limit of ${format(rule.max, rule.currency)}`
+        : `${rule.category} bill of ${format(amount, rule.currency)} is over the limit of ${format(rule.max, rule.currency)}`,
+    }];
+  });
+}
+
+function checkRule(rule: PolicyRule, bills: ExtractedBill[], now: Date): Omit<PolicyViolation, "rule_id" | "severity">[] {
+  switch (rule.type) {
+    case "amount_limit":
+      return checkAmountLimit(rule, bills);
+    case "disallowed_categories":
+      return bills.flatMap((bill, index) =>
+        rule.categories.includes(bill.purpose)
+          ? [{ bill_index: index, message: `${bill.purpose} expenses are not allowed` }]
+          : []
+      );
+    case "max_age_days":
+      return bills.flatMap((bill, index) => {
+        if (!bill.date) return [];
+        const age = Math.floor((now.getTime() - Date.parse(bill.date)) / DAY_MS);
+        return age > rule.days
+          ? [{ bill_index: index, message: `Receipt is ${age} days old; claims must be filed within ${rule.days} days` }]
+          : [];
+      });
+  }
+}
+
+/**
+ * Checks every bill of a document against the policy. Bills without the data
+ * a rule needs (no date, no amount) are not flagged by it.
+ */
+export function evaluatePolicy(bills: ExtractedBill[], policy: Policy, now = new Date()): PolicyResult {
+  const violations = policy.rules.flatMap((rule) =>
+    checkRule(rule, bills, now).map((violation) => ({
+      ...violation,
+      rule_id: rule.id,
+      severity: rule.severity,
+      message: rule.message ?? violation.message,
+    }))
+  );
+
+  return { violations, blocked: violations.some((violation) => violation.severity === "block") };
+}
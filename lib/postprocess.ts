@@ -0,0 +1,165 @@
+import { normalizeAmount, type NormalizedAmount } from "@/lib/amount";
+import {
+  classifyByKeywords,
+  findCategory,
+  getCategorySet,
+  matchMerchant,
+  type CategorySet,
+} from "@/lib/categories";
+import { assessConfidence, REVIEW_THRESHOLD, type ConfidenceAssessment } from "@/lib/confidence";
+import type { ConfidenceField, ExtractedBill } from "@/lib/expense";
+import { DEFAULT_LOCALE, parseLocalDate, receiptLocale } from "@/lib/locale";
+
+export type PurposeSource = "model" | "merchant_rule" | "keyword_rule" | "manual";
+
+export interface ProcessedBill extends ExtractedBill, ConfidenceAssessment {
+  amount_normalized: NormalizedAmount | null;
+  warnings: string[];
+  /** Fields a person has corrected by hand. */
+  verified_fields: ConfidenceField[];
+  /** What decided `purpose`: the extractor, a category rule, or a person. */
+  purpose_source: PurposeSource;
+  /** General-ledger code of the category. */
+  gl_code: string | null;
+}
+
+export interface PostProcessOptions {
+  categories?: CategorySet;
+  verified?: ConfidenceField[];
+}
+
+// Confidence given to a category chosen by a deterministic rule.
+const RULE_CONFIDENCE = 0.9;
+
+// Receipts routinely carry a "round off" line of up to one unit.
+const TOLERANCE = 1;
+
+const sum = (values: (number | null)[]) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+
+const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+const format = (value: number) => value.toFixed(2);
+
+/** Checks that line items, subtotal, taxes and tip add up to the extracted total. */
+export function validateTotals(bill: ExtractedBill, total: number | null): string[] {
+  const warnings: string[] = [];
+  const { taxes, line_items: lineItems } = bill;
+  const taxTotal = sum([taxes.cgst, taxes.sgst, taxes.igst, taxes.other]);
+
+  for (const item of lineItems) {
+    if (item.quantity !== null && item.unit_price !== null && item.total !== null
+      && differs(item.quantity * item.unit_price, item.total)) {
+      warnings.push(`Line item "${item.description}": ${item.quantity} × ${format(item.unit_price)} is not ${format(item.total)}`);
+    }
+  }
+
+  const itemsTotal = lineItems.every((item) => item.total !== null) && lineItems.length > 0
+    ? sum(lineItems.map((item) => item.total))
+    : null;
+
+  if (itemsTotal !== null && bill.subtotal !== null && differs(itemsTotal, bill.subtotal)) {
+    warnings.push(`Line items add up to ${format(itemsTotal)} but the subtotal is ${format(bill.subtotal)}`);
+  }
+
+  const base = bill.subtotal ?? itemsTotal;
+  if (base !== null && total !== null) {
+    const expected = base + taxTotal + (bill.tip ?? 0);
+    if (differs(expected, total)) {
+      warnings.push(`Subtotal, taxes and tip add up to ${format(expected)} but the total is ${format(total)}`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Deterministic category rules. A listed merchant wins unless the extractor
+ * confidently picked a different known category, since merchant names are
+ * matched as words anywhere in the name; keywords only fill in when the
+ * extractor fell back to the catch-all or an unknown category.
+ * Re-running on an already processed bill keeps its earlier source.
+ */
+export function applyCategoryRules(
+  bill: ExtractedBill & { purpose_source?: PurposeSource },
+  categories: CategorySet
+): { purpose: string; purpose_source: PurposeSource } {
+  const known = findCategory(categories, bill.purpose) !== null;
+  const modelPicked = known && bill.purpose !== categories.fallback;
+
+  const merchantCategory = matchMerchant(bill.merchant_name, categories);
+  const confidentModel = modelPicked && bill.confidence.purpose >= REVIEW_THRESHOLD;
+  if (merchantCategory && (merchantCategory.name === bill.purpose || !confidentModel)) {
+    return { purpose: merchantCategory.name, purpose_source: "merchant_rule" };
+  }
+
+  if (modelPicked) {
+    return { purpose: bill.purpose, purpose_source: bill.purpose_source ?? "model" };
+  }
+
+  const guess = classifyByKeywords(bill.raw_text, categories);
+  if (guess !== categories.fallback) {
+    return { purpose: guess, purpose_source: "keyword_rule" };
+  }
+  return { purpose: categories.fallback, purpose_source: known ? bill.purpose_source ?? "model" : "keyword_rule" };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes the free-form amount, read in the receipt's locale, and
+ * cross-checks it against the numeric fields, filling in `amount_value`/`currency`
+ * when the extractor left them empty. A date not given as YYYY-MM-DD is re-read in the locale.
+ * `confidence` is replaced by the combined score from `assessConfidence`.
+ * Safe to run again on a processed bill, e.g. after a manual correction.
+ */
+export function postProcessBill(
+  bill: ExtractedBill & { purpose_source?: PurposeSource },
+  { categories = getCategorySet(), verified = [] }: PostProcessOptions = {}
+): ProcessedBill {
+  const warnings: string[] = [];
+  const locale = receiptLocale(bill);
+  const normalized = normalizeAmount(bill.amount, bill.currency ?? undefined, locale);
+  const date = bill.date && !ISO_DATE.test(bill.date) ? parseLocalDate(bill.date, locale ?? DEFAULT_LOCALE) : bill.date;
+
+  if (bill.date && !date) {
+    warnings.push(`Date "${bill.date}" is not a recognizable date`);
+  }
+
+  if (!normalized) {
+    warnings.push("Total amount not found");
+  } else {
+    if (bill.amount_value !== null && differs(bill.amount_value, normalized.value)) {
+      warnings.push(`Amount "${bill.amount}" does not match the numeric total ${format(bill.amount_value)}`);
+    }
+    if (bill.currency && bill.currency !== normalized.currency) {
+      warnings.push(`Amount "${bill.amount}" looks like ${normalized.currency} but the currency is ${bill.currency}`);
+    }
+  }
+
+  const classification = verified.includes("purpose")
+    ? { purpose: bill.purpose, purpose_source: "manual" as const }
+    : applyCategoryRules(bill, categories);
+  const isRule = classification.purpose_source === "merchant_rule" || classification.purpose_source === "keyword_rule";
+
+  const processed = {
+    ...bill,
+    ...classification,
+    date: date ?? bill.date,
+    amount_value: bill.amount_value ?? normalized?.value ?? null,
+    currency: bill.currency ?? normalized?.currency ?? null,
+    confidence: isRule
+      ? { ...bill.confidence, purpose: Math.max(bill.confidence.purpose, RULE_CONFIDENCE) }
+      : bill.confidence,
+  };
+
+  const allWarnings = [...warnings, ...validateTotals(processed, processed.amount_value)];
+
+  return {
+    ...processed,
+    ...assessConfidence(processed, allWarnings, categories, verified),
+    amount_normalized: normalized,
+    warnings: allWarnings,
+    verified_fields: verified,
+    gl_code: findCategory(categories, processed.purpose)?.gl_code ?? null,
+  };
+}
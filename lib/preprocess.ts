@@ -0,0 +1,216 @@
+import { isPdf } from "@/lib/expense";
+
+/** Rectangle as fractions (0–1) of the upright image. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** Per-receipt fixes chosen by hand in the preview. */
+export interface ManualAdjustments {
+  rotation: Rotation;
+  crop: CropRect | null;
+}
+
+/** Pipeline settings shared by every receipt in a batch. */
+export interface PreprocessSettings {
+  /** Longest side in pixels after downscaling. */
+  maxDimension: number;
+  /** Grayscale plus a contrast stretch; helps dim or faded thermal paper. */
+  enhance: boolean;
+  /** Trim the background around the paper when no manual crop is set. */
+  autoCrop: boolean;
+}
+
+export type PreprocessOptions = PreprocessSettings & ManualAdjustments;
+
+export const NO_ADJUSTMENTS: ManualAdjustments = { rotation: 0, crop: null };
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_MAX_IMAGE_DIMENSION) || 2000,
+  enhance: true,
+  autoCrop: true,
+};
+
+const JPEG_QUALITY = 0.85;
+
+// Auto-crop works on a small copy; receipt edges don't need more detail than this.
+const DETECTION_SIZE = 256;
+
+const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+/** Otsu's method: the brightness that best splits the histogram into two classes. */
+function otsuThreshold(gray: ArrayLike<number>): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[Math.round(gray[i])]++;
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+
+  return threshold;
+}
+
+// First and last index whose count reaches half of the busiest row or column.
+const span = (counts: number[]): [number, number] => {
+  const cutoff = Math.max(...counts) / 2;
+  return [counts.findIndex((count) => count >= cutoff), counts.findLastIndex((count) => count >= cutoff)];
+};
+
+/**
+ * Finds the paper in a grayscale image: receipts are much brighter than the
+ * table they're photographed on. Returns null when no clear edge is found,
+ * so the caller keeps the full frame.
+ */
+export function detectReceiptBounds(gray: ArrayLike<number>, width: number, height: number): CropRect | null {
+  const threshold = otsuThreshold(gray);
+  const rows = new Array<number>(height).fill(0);
+  const columns = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) {
+        rows[y]++;
+        columns[x]++;
+      }
+    }
+  }
+
+  const [top, bottom] = span(rows);
+  const [left, right] = span(columns);
+  const margin = 0.02;
+  const rect = {
+    x: Math.max(0, left / width - margin),
+    y: Math.max(0, top / height - margin),
+    width: Math.min(1, (right + 1) / width + margin) - Math.max(0, left / width - margin),
+    height: Math.min(1, (bottom + 1) / height + margin) - Math.max(0, top / height - margin),
+  };
+
+  // Almost the whole frame means there's nothing to trim; a sliver means detection failed.
+  const area = rect.width * rect.height;
+  return area > 0.9 || area < 0.1 ? null : rect;
+}
+
+/** Grayscale, then stretch the 2nd–98th percentile of brightness to the full range. In place. */
+export function enhanceContrast(data: Uint8ClampedArray) {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.round(luminance(data, i));
+    data[i] = data[i + 1] = data[i + 2] = value;
+    histogram[value]++;
+  }
+
+  const pixels = data.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let seen = 0; low < 255 && seen + histogram[low] < pixels * 0.02; low++) seen += histogram[low];
+  for (let seen = 0; high > 0 && seen + histogram[high] < pixels * 0.02; high--) seen += histogram[high];
+  if (high - low < 16) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = (data[i] - low) * scale;
+  }
+}
+
+function findReceiptBounds(bitmap: ImageBitmap): CropRect | null {
+  const scale = Math.min(1, DETECTION_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = Array.from({ length: canvas.width * canvas.height }, (_, i) => luminance(data, i * 4));
+  return detectReceiptBounds(gray, canvas.width, canvas.height);
+}
+
+const isUntouched = (file: File, bitmap: ImageBitmap, options: PreprocessOptions) =>
+  file.type === "image/jpeg" && !options.enhance && !options.autoCrop && !options.crop && options.rotation === 0
+  && Math.max(bitmap.width, bitmap.height) <= options.maxDimension;
+
+/**
+ * Prepares a photo for extraction: EXIF orientation, crop (manual or
+ * automatic), rotation, downscaling and contrast, in that order. Returns a
+ * JPEG; PDFs, images that need no change and images the browser can't decode
+ * (such as HEIC in most browsers) are returned as they are.
+ * Used before both the AI upload and in-browser Tesseract.
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<File> {
+  if (isPdf(file.type)) return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    // "from-image" applies the EXIF orientation tag, so sideways phone photos come out upright.
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    // The server accepts formats the browser can't draw, so send the original.
+    return file;
+  }
+
+  try {
+    if (isUntouched(file, bitmap, options)) return file;
+
+    const bounds = options.crop ?? (options.autoCrop ? findReceiptBounds(bitmap) : null) ?? FULL_FRAME;
+    const sourceX = Math.round(bounds.x * bitmap.width);
+    const sourceY = Math.round(bounds.y * bitmap.height);
+    const sourceWidth = Math.max(1, Math.round(bounds.width * bitmap.width));
+    const sourceHeight = Math.max(1, Math.round(bounds.height * bitmap.height));
+
+    const scale = Math.min(1, options.maxDimension / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    const quarterTurn = options.rotation % 180 !== 0;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = quarterTurn ? height : width;
+    canvas.height = quarterTurn ? width : height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available in this browser");
+
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate((options.rotation * Math.PI) / 180);
+    context.drawImage(bitmap, sourceX, sourceY, sourceWidth, sourceHeight, -width / 2, -height / 2, width, height);
+
+    if (options.enhance) {
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      enhanceContrast(image.data);
+      context.putImageData(image, 0, 0);
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+    if (!blob) throw new Error("Couldn't encode the processed image");
+
+    return new File([blob], `${file.name.replace(/\.[^.]+$/, "")}.jpg`, { type: "image/jpeg" });
+  } finally {
+    bitmap.close();
+  }
+}
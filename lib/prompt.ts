@@ -0,0 +1,24 @@
+import { describeCategories, type CategorySet } from "@/lib/categories";
+import { languageName } from "@/lib/locale";
+
+// Translation only touches descriptive text; numbers, codes and raw_text stay as printed.
+const translationRule = (outputLanguage: string | undefined) =>
+  outputLanguage
+    ? `Translate merchant_name and line_items descriptions into ${languageName(outputLanguage)} (${outputLanguage}); keep raw_text, bill_no and amount exactly as printed in the original language.`
+    : "Keep merchant_name and line_items descriptions as printed, in the original language and script.";
+
+export const buildSystemPrompt = (categories: CategorySet, outputLanguage?: string) => `Extract fields: bill_no, amount, purpose, plus details.
+bill_no: Find Invoice/Receipt/Bill/Order/Transaction number, else "N/A".
+amount: Final total only; include currency; if missing "0".
+purpose: Classify as one: ${describeCategories(categories)}. Use ${categories.fallback} when nothing fits.
+Use context from merchant/items. Match largest/final amount. Be exact; keep formatting.
+language: ISO 639-1 code of the printed language; locale: BCP 47 locale of its date and number formats.
+Read dates and amounts the way the locale prints them before converting (05/03/2024 is 5 March in en-IN or de-DE, 3 May in en-US; 1.234,50 is 1234.5 in de-DE). Convert native digits such as ৫ or ५ to 0-9.
+${translationRule(outputLanguage)}
+Details: date as YYYY-MM-DD; merchant_name and merchant_gstin; subtotal before tax; taxes cgst/sgst/igst/other; tip; currency as ISO 4217 code; amount_value as plain number of the final total; payment_method; line_items with description/quantity/unit_price/total. Numbers without symbols or grouping. Use null when absent; never guess.
+boxes: for bill_no, amount, date and merchant_name, [ymin, xmin, ymax, xmax] around the printed value, scaled 0-1000 on its page; null when not printed.
+confidence: 0-1 per field; lower it for blurry, handwritten, cut-off or inferred values, 0 when not found.
+Documents may have several pages or several bills per page: return one entry in bills per distinct bill, with its 1-based page number.
+`;
+
+export const userPrompt = "Extract bill_no, amount, purpose and details for every bill.";
@@ -0,0 +1,79 @@
+import { generateObject, streamObject, type LanguageModel } from "ai";
+import type { z } from "zod";
+import { createDocumentExtractionSchema, isPdf, type ExtractedBill } from "@/lib/expense";
+import { fromModelBoxes, type PartialModelBoxes } from "@/lib/field-boxes";
+import { buildSystemPrompt, userPrompt } from "@/lib/prompt";
+import type { ExtractionProvider, PartialBill } from "./types";
+
+type ModelBill = z.infer<ReturnType<typeof createDocumentExtractionSchema>>["bills"][number];
+
+// The model reports locations in its own box format; bills carry normalized boxes.
+const withFieldBoxes = <T extends { boxes?: PartialModelBoxes }>({ boxes, ...bill }: T) => ({
+  ...bill,
+  field_boxes: fromModelBoxes(boxes),
+});
+
+/**
+ * Wraps any AI SDK vision-capable language model. Gemini is one instance of this;
+ * a plain string model id (e.g. "openai/gpt-4o") is routed through the AI Gateway.
+ */
+export function createAiSdkProvider(id: string, model: LanguageModel): ExtractionProvider {
+  const modelId = typeof model === "string" ? model : model.modelId;
+
+  return {
+    id,
+    model: modelId,
+    supportsPdf: true,
+    async extract({ image, mimeType, categories, outputLanguage, signal, onPartial }) {
+      // PDFs are passed through as file parts; the model reads every page itself.
+      const document = isPdf(mimeType)
+        ? { type: "file" as const, data: image.slice(image.indexOf(",") + 1), mediaType: mimeType }
+        : { type: "image" as const, image };
+
+      const request = {
+        model,
+        schema: createDocumentExtractionSchema(categories),
+        // Retries, backoff and fallbacks are handled by `extractWithFallback`.
+        maxRetries: 0,
+        abortSignal: signal,
+        messages: [
+          { role: "system" as const, content: buildSystemPrompt(categories, outputLanguage) },
+          {
+            role: "user" as const,
+            content: [
+              { type: "text" as const, text: userPrompt },
+              document,
+            ],
+          },
+        ],
+      };
+
+      const toBill = (bill: ModelBill): ExtractedBill => ({
+        ...withFieldBoxes(bill),
+        translated_to: outputLanguage ?? null,
+      });
+
+      if (!onPartial) {
+        const { object, usage } = await generateObject(request);
+        return { bills: object.bills.map(toBill), model: modelId, usage };
+      }
+
+      // streamObject reports failures through onError rather than the stream; keep the original error.
+      let streamError: unknown = null;
+      const result = streamObject({
+        ...request,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+      });
+
+      for await (const partial of result.partialObjectStream) {
+        onPartial((partial.bills ?? []).flatMap((bill): PartialBill[] => (bill ? [withFieldBoxes(bill)] : [])));
+      }
+      if (streamError) throw streamError;
+
+      const object = await result.object;
+      return { bills: object.bills.map(toBill), model: modelId, usage: await result.usage };
+    },
+  };
+}
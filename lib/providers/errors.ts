@@ -0,0 +1,94 @@
+import { APICallError, LoadAPIKeyError, NoObjectGeneratedError, RetryError, type LanguageModelUsage } from "ai";
+
+export type ProviderErrorKind =
+  /** Missing or rejected credentials. */
+  | "auth"
+  /** 429 or quota exhausted; `retryAfterMs` says when to try again, if the provider told us. */
+  | "rate_limit"
+  /** Network failures and 5xx responses that are worth retrying. */
+  | "transient"
+  | "timeout"
+  /** The caller went away; nothing more should be attempted. */
+  | "aborted"
+  /** The model answered but not with a usable object. */
+  | "invalid_response"
+  | "unknown";
+
+export class ProviderError extends Error {
+  /** How many times the provider was called before giving up. */
+  attempts = 1;
+  /** Tokens those calls used anyway, where the provider reported them. */
+  usage?: LanguageModelUsage;
+
+  constructor(
+    public kind: ProviderErrorKind,
+    public providerId: string,
+    message: string,
+    public retryAfterMs?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "ProviderError";
+  }
+
+  get retryable() {
+    return this.kind === "rate_limit" || this.kind === "transient" || this.kind === "timeout";
+  }
+}
+
+/** Milliseconds from `retry-after-ms` or `retry-after` (seconds or an HTTP date). */
+export function parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined;
+
+  const milliseconds = Number.parseFloat(headers["retry-after-ms"] ?? "");
+  if (Number.isFinite(milliseconds)) return Math.max(0, milliseconds);
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+  return Number.isFinite(delay) ? Math.max(0, delay) : undefined;
+}
+
+const kindForStatus = (status: number | undefined): ProviderErrorKind | null => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate_limit";
+  if (status === 408 || (status !== undefined && status >= 500)) return "transient";
+  return null;
+};
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === "AbortError";
+const isTimeoutError = (error: unknown) => error instanceof Error && error.name === "TimeoutError";
+
+/**
+ * Turns whatever a provider threw into a `ProviderError`, using the AI SDK's
+ * error classes and HTTP status codes rather than message text.
+ */
+export function classifyError(error: unknown, providerId: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (RetryError.isInstance(error)) return classifyError(error.lastError, providerId);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const wrap = (kind: ProviderErrorKind, retryAfterMs?: number) =>
+    new ProviderError(kind, providerId, message, retryAfterMs, { cause: error });
+
+  if (isTimeoutError(error)) return wrap("timeout");
+  if (isAbortError(error)) return wrap("aborted");
+  if (LoadAPIKeyError.isInstance(error)) return wrap("auth");
+  if (NoObjectGeneratedError.isInstance(error)) {
+    // The model was paid for even though its answer can't be used.
+    const invalid = wrap("invalid_response");
+    invalid.usage = error.usage;
+    return invalid;
+  }
+
+  if (APICallError.isInstance(error)) {
+    const kind = kindForStatus(error.statusCode) ?? (error.isRetryable ? "transient" : "unknown");
+    return wrap(kind, kind === "rate_limit" ? parseRetryAfter(error.responseHeaders) : undefined);
+  }
+
+  // fetch() rejects with a TypeError when the network is down.
+  if (error instanceof TypeError && /fetch failed|network/i.test(message)) return wrap("transient");
+
+  return wrap("unknown");
+}
@@ -0,0 +1,73 @@
+import { google } from "@ai-sdk/google";
+import { ApiError } from "@/lib/api-error";
+import { createAiSdkProvider } from "./ai-sdk";
+import { mockProvider } from "./mock";
+import { tesseractProvider } from "./tesseract";
+import type { ExtractionProvider } from "./types";
+
+export { ProviderError, type ProviderErrorKind } from "./errors";
+export {
+  addUsage,
+  DEFAULT_RESILIENCE,
+  extractWithFallback,
+  FallbackChainError,
+  type ChainResult,
+  type ProviderAttempt,
+} from "./resilience";
+export type { ExtractionInput, ExtractionProvider, ExtractionResult, PartialBill } from "./types";
+
+const providers: Record<string, () => ExtractionProvider> = {
+  gemini: () => createAiSdkProvider("gemini", google(process.env.GEMINI_MODEL || "gemini-2.0-flash-exp")),
+  "ai-sdk": () => createAiSdkProvider("ai-sdk", process.env.AI_SDK_MODEL || "openai/gpt-4o"),
+  tesseract: () => tesseractProvider,
+  mock: () => mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(providers);
+
+export const isProviderId = (id: string) => Object.hasOwn(providers, id);
+
+const unknownProvider = (id: string) => `Unknown extraction provider "${id}". Expected one of: ${PROVIDER_IDS.join(", ")}`;
+
+/**
+ * Resolves the provider for a request: the explicit id if given, otherwise
+ * EXTRACTION_PROVIDER, otherwise Gemini. An unknown id is a server
+ * configuration error, since requests are validated against `PROVIDER_IDS`.
+ */
+export function getProvider(id?: string): ExtractionProvider {
+  const resolved = id || process.env.EXTRACTION_PROVIDER || "gemini";
+  if (!isProviderId(resolved)) {
+    throw new ApiError(500, "internal_error", "The extraction provider is misconfigured on the server", {
+      details: unknownProvider(resolved),
+    });
+  }
+  return providers[resolved]();
+}
+
+// Fallback ids already warned about, so a typo is logged once rather than on every request.
+const reportedFallbacks = new Set<string>();
+
+const isKnownFallback = (id: string) => {
+  if (isProviderId(id)) return true;
+  if (!reportedFallbacks.has(id)) {
+    reportedFallbacks.add(id);
+    console.warn(`Ignoring EXTRACTION_FALLBACKS entry: ${unknownProvider(id)}`);
+  }
+  return false;
+};
+
+/**
+ * The provider for a request followed by the fallbacks in EXTRACTION_FALLBACKS
+ * (comma-separated ids, e.g. "ai-sdk,tesseract"). Unknown fallbacks, and those
+ * that can't read the document type, are skipped.
+ */
+export function getProviderChain(id: string | undefined, { pdf }: { pdf: boolean }): ExtractionProvider[] {
+  const primary = getProvider(id);
+  const fallbackIds = (process.env.EXTRACTION_FALLBACKS ?? "")
+    .split(",")
+    .map((fallbackId) => fallbackId.trim())
+    .filter((fallbackId) => fallbackId && fallbackId !== primary.id && isKnownFallback(fallbackId));
+
+  const fallbacks = [...new Set(fallbackIds)].map((fallbackId) => getProvider(fallbackId));
+  return [primary, ...fallbacks.filter((provider) => !pdf || provider.supportsPdf)];
+}
@@ -0,0 +1,95 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { documentExtractionSchema, type ExtractedBill } from "@/lib/expense";
+import type { ExtractionProvider } from "./types";
+
+const DEFAULT_FIXTURES: ExtractedBill[][] = [
+  [
+    {
+      bill_no: "INV-2024-0042",
+      amount: "₹1,250.00",
+      purpose: "Food",
+      raw_text: "Spice Garden Restaurant\nGSTIN: 29ABCDE1234F1Z5\nInvoice No: INV-2024-0042\nDate: 14/03/2024\nPaneer Tikka 1 x 450.00\nDal Makhani 2 x 370.24\nSub Total: 1,190.48\nCGST @2.5%: 29.76\nSGST @2.5%: 29.76\nGrand Total: ₹1,250.00\nPaid by UPI",
+      date: "2024-03-14",
+      merchant_name: "Spice Garden Restaurant",
+      merchant_gstin: "29ABCDE1234F1Z5",
+      subtotal: 1190.48,
+      taxes: { cgst: 29.76, sgst: 29.76, igst: null, other: null },
+      tip: null,
+      currency: "INR",
+      amount_value: 1250,
+      payment_method: "UPI",
+      line_items: [
+        { description: "Paneer Tikka", quantity: 1, unit_price: 450, total: 450 },
+        { description: "Dal Makhani", quantity: 2, unit_price: 370.24, total: 740.48 },
+      ],
+      confidence: { bill_no: 0.95, amount: 0.98, purpose: 0.9, date: 0.9, merchant_name: 0.85 },
+      field_boxes: {
+        merchant_name: { x: 0.2, y: 0.04, width: 0.6, height: 0.05 },
+        bill_no: { x: 0.35, y: 0.16, width: 0.4, height: 0.04 },
+        date: { x: 0.35, y: 0.21, width: 0.3, height: 0.04 },
+        amount: { x: 0.55, y: 0.82, width: 0.35, height: 0.05 },
+      },
+      language: "en",
+      locale: "en-IN",
+      page: 1,
+    },
+  ],
+];
+
+/** A fixture document; recorded ones also say which document they were read from, by which model. */
+const fixtureSchema = documentExtractionSchema.extend({
+  document_sha256: z.string().optional(),
+  model: z.string().optional(),
+  usage: z
+    .object({ inputTokens: z.number().optional(), outputTokens: z.number().optional(), totalTokens: z.number().optional() })
+    .optional(),
+});
+
+type Fixture = z.infer<typeof fixtureSchema>;
+
+const loadFixtures = async (): Promise<Fixture[]> => {
+  const path = process.env.MOCK_EXTRACTION_FIXTURES;
+  if (!path) return DEFAULT_FIXTURES.map((bills) => ({ bills }));
+
+  const parsed = JSON.parse(await readFile(path, "utf8"));
+  return fixtureSchema.array().parse(Array.isArray(parsed) ? parsed : [parsed]);
+};
+
+/**
+ * Deterministic offline provider for development and tests. Returns a fixture
+ * chosen by hashing the image, so the same upload always yields the same result.
+ * Set MOCK_EXTRACTION_FIXTURES to a JSON file of `{ bills: [...] }` documents
+ * (one object or an array) to override. A fixture with a `document_sha256`
+ * is a recorded answer and is returned for that document only, with the
+ * recorded `model` and `usage` so its cost can be estimated; `npm run eval --
+ * --record` writes such files. Streaming callers get one partial with just the
+ * bill numbers, then the full bills.
+ */
+export const mockProvider: ExtractionProvider = {
+  id: "mock",
+  model: "mock",
+  supportsPdf: true,
+  async extract({ image, signal, onPartial }) {
+    signal?.throwIfAborted();
+    const fixtures = await loadFixtures();
+    const documentHash = createHash("sha256").update(Buffer.from(image.slice(image.indexOf(",") + 1), "base64")).digest("hex");
+    const recorded = fixtures.find((fixture) => fixture.document_sha256 === documentHash);
+    const unrecorded = fixtures.filter((fixture) => !fixture.document_sha256);
+
+    if (!recorded && unrecorded.length === 0) {
+      throw new Error("No recorded answer for this document in MOCK_EXTRACTION_FIXTURES");
+    }
+    const digest = createHash("sha256").update(image).digest();
+    const { bills, model, usage } = recorded ?? unrecorded[digest.readUInt32BE(0) % unrecorded.length];
+
+    onPartial?.(bills.map(({ bill_no, page }) => ({ bill_no, page })));
+    onPartial?.(bills);
+    return {
+      bills,
+      model: model ?? mockProvider.model,
+      usage: usage && { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, totalTokens: usage.totalTokens },
+    };
+  },
+};
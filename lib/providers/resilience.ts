@@ -0,0 +1,169 @@
+import type { LanguageModelUsage } from "ai";
+import { classifyError, ProviderError } from "./errors";
+import type { ExtractionInput, ExtractionProvider, ExtractionResult } from "./types";
+
+export interface ResilienceOptions {
+  /** Retries per provider after the first attempt, for retryable errors only. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Limit for each attempt; the whole chain can take longer. */
+  timeoutMs: number;
+  /** Aborts everything, e.g. when the client disconnects. */
+  signal?: AbortSignal;
+  /** Called before every provider call, including retries and fallbacks. */
+  onAttempt?: (provider: string, attempt: number) => void;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  model: string;
+  attempts: number;
+  /** Tokens used across those calls, failed ones included, where the provider reported them. */
+  usage?: LanguageModelUsage;
+  error?: { kind: ProviderError["kind"]; message: string };
+}
+
+export interface ChainResult extends ExtractionResult {
+  provider: string;
+  /** One entry per provider tried, in order; the last one succeeded. */
+  attempts: ProviderAttempt[];
+}
+
+export class FallbackChainError extends Error {
+  constructor(public attempts: ProviderAttempt[], public lastError: ProviderError) {
+    super(lastError.message, { cause: lastError });
+    this.name = "FallbackChainError";
+  }
+}
+
+// Anything but a whole number of retries falls back to the default; large values are capped.
+const MAX_RETRIES_LIMIT = 10;
+
+const parseMaxRetries = (value: string | undefined) => {
+  const retries = Number(value);
+  return value && Number.isInteger(retries) && retries >= 0 ? Math.min(retries, MAX_RETRIES_LIMIT) : 2;
+};
+
+export const DEFAULT_RESILIENCE: Omit<ResilienceOptions, "signal" | "onAttempt"> = {
+  maxRetries: parseMaxRetries(process.env.EXTRACTION_MAX_RETRIES),
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: Number(process.env.EXTRACTION_TIMEOUT_MS) || 60_000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter, unless the provider said how long to wait.
+const backoff = (attempt: number, error: ProviderError, options: ResilienceOptions) =>
+  error.retryAfterMs !== undefined
+    ? Math.min(error.retryAfterMs, options.maxDelayMs)
+    : Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+const addTokens = (a: number | undefined, b: number | undefined) =>
+  a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+export const addUsage = (
+  a: LanguageModelUsage | undefined,
+  b: LanguageModelUsage | undefined
+): LanguageModelUsage | undefined =>
+  a && b
+    ? {
+        inputTokens: addTokens(a.inputTokens, b.inputTokens),
+        outputTokens: addTokens(a.outputTokens, b.outputTokens),
+        totalTokens: addTokens(a.totalTokens, b.totalTokens),
+      }
+    : a ?? b;
+
+const cancelled = (provider: ExtractionProvider, cause: unknown) =>
+  new ProviderError("aborted", provider.id, "Request was cancelled", undefined, { cause });
+
+/**
+ * One provider with a timeout per attempt and backoff between retryable failures.
+ * The usage returned, or set on the error thrown, covers every call made.
+ */
+async function extractWithRetry(
+  provider: ExtractionProvider,
+  input: Omit<ExtractionInput, "signal">,
+  options: ResilienceOptions
+): Promise<{ result: ExtractionResult; attempts: number; usage?: LanguageModelUsage }> {
+  let usage: LanguageModelUsage | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(options.timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    let error: ProviderError;
+    options.onAttempt?.(provider.id, attempt + 1);
+    try {
+      const result = await provider.extract({ ...input, signal });
+      return { result, attempts: attempt + 1, usage: addUsage(usage, result.usage) };
+    } catch (err) {
+      // A client abort can surface as a timeout-looking error from deep inside fetch; trust the signal.
+      error = options.signal?.aborted ? cancelled(provider, err) : classifyError(err, provider.id);
+    }
+
+    usage = addUsage(usage, error.usage);
+    error.attempts = attempt + 1;
+    error.usage = usage;
+    if (!error.retryable || attempt >= options.maxRetries) throw error;
+
+    try {
+      await sleep(backoff(attempt, error, options), options.signal);
+    } catch (err) {
+      const abort = cancelled(provider, err);
+      abort.attempts = attempt + 1;
+      abort.usage = usage;
+      throw abort;
+    }
+  }
+}
+
+/**
+ * Tries each provider in turn until one succeeds. Cancellation stops the chain
+ * immediately; any other failure moves on to the next provider.
+ */
+export async function extractWithFallback(
+  chain: ExtractionProvider[],
+  input: Omit<ExtractionInput, "signal">,
+  options: ResilienceOptions
+): Promise<ChainResult> {
+  const attempts: ProviderAttempt[] = [];
+  let lastError: ProviderError | null = null;
+
+  for (const provider of chain) {
+    try {
+      const { result, attempts: count, usage } = await extractWithRetry(provider, input, options);
+      attempts.push({ provider: provider.id, model: provider.model, attempts: count, usage });
+      return { ...result, provider: provider.id, attempts };
+    } catch (err) {
+      const error = classifyError(err, provider.id);
+      attempts.push({
+        provider: provider.id,
+        model: provider.model,
+        attempts: error.attempts,
+        usage: error.usage,
+        error: { kind: error.kind, message: error.message },
+      });
+      lastError = error;
+      if (error.kind === "aborted") break;
+    }
+  }
+
+  throw new FallbackChainError(
+    attempts,
+    lastError ?? new ProviderError("unknown", "none", "No extraction provider is available for this document")
+  );
+}
@@ -0,0 +1,15 @@
+import { extractFieldsFromText } from "@/lib/heuristics";
+import { recognizeText } from "@/lib/tesseract";
+import type { ExtractionProvider } from "./types";
+
+export const tesseractProvider: ExtractionProvider = {
+  id: "tesseract",
+  model: "tesseract-eng",
+  supportsPdf: false,
+  async extract({ image, categories, signal }) {
+    const base64 = image.slice(image.indexOf(",") + 1);
+    const text = await recognizeText(Buffer.from(base64, "base64"), undefined, signal);
+
+    return { bills: [{ ...extractFieldsFromText(text, categories), page: 1 }], model: tesseractProvider.model };
+  },
+};
@@ -0,0 +1,34 @@
+import type { DeepPartial, LanguageModelUsage } from "ai";
+import type { CategorySet } from "@/lib/categories";
+import type { ExtractedBill } from "@/lib/expense";
+
+export interface ExtractionInput {
+  /** Image or PDF as a `data:` URL. */
+  image: string;
+  mimeType: string;
+  /** Categories `purpose` must be chosen from. */
+  categories: CategorySet;
+  /** Fires on timeout or when the client cancels; providers should stop work. */
+  signal?: AbortSignal;
+  /** Translate merchant names and line items into this language (ISO 639-1); as printed when unset. */
+  outputLanguage?: string;
+  /** Called with the bills so far while a streaming model is still answering. */
+  onPartial?: (bills: PartialBill[]) => void;
+}
+
+export type PartialBill = DeepPartial<ExtractedBill>;
+
+export interface ExtractionResult {
+  bills: ExtractedBill[];
+  model: string;
+  usage?: LanguageModelUsage;
+}
+
+export interface ExtractionProvider {
+  id: string;
+  /** The model that answers, e.g. "gemini-2.5-flash"; part of the result cache key. */
+  model: string;
+  /** Whether the provider accepts `application/pdf` input. */
+  supportsPdf: boolean;
+  extract(input: ExtractionInput): Promise<ExtractionResult>;
+}
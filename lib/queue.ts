@@ -0,0 +1,41 @@
+export interface TaskQueue<T> {
+  enqueue(...tasks: T[]): void;
+  readonly active: number;
+  readonly pending: number;
+}
+
+/**
+ * Minimal in-process queue that runs at most `concurrency` tasks at once, in
+ * FIFO order. Failures are the runner's responsibility; a rejected task only
+ * frees its slot.
+ */
+export function createTaskQueue<T>(concurrency: number, run: (task: T) => Promise<void>): TaskQueue<T> {
+  const waiting: T[] = [];
+  let active = 0;
+
+  const pump = () => {
+    while (active < concurrency && waiting.length > 0) {
+      const task = waiting.shift() as T;
+      active++;
+      run(task)
+        .catch(() => undefined)
+        .finally(() => {
+          active--;
+          pump();
+        });
+    }
+  };
+
+  return {
+    enqueue(...tasks) {
+      waiting.push(...tasks);
+      pump();
+    },
+    get active() {
+      return active;
+    },
+    get pending() {
+      return waiting.length;
+    },
+  };
+}
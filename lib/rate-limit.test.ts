@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { ApiError } from "@/lib/api-error";
+import type { ApiClient } from "@/lib/auth";
+import { createMemoryRateLimitStore, enforceRateLimit, setRateLimitStore } from "@/lib/rate-limit";
+
+const limit = { capacity: 2, refillPerMinute: 60 };
+
+describe("memory rate-limit store", () => {
+  test("refuses once the bucket is empty and says when a token is back", async () => {
+    const store = createMemoryRateLimitStore();
+
+    assert.deepEqual(await store.take("key:a", limit, 0), { allowed: true, remaining: 1, retryAfterMs: 0 });
+    assert.deepEqual(await store.take("key:a", limit, 0), { allowed: true, remaining: 0, retryAfterMs: 0 });
+    assert.deepEqual(await store.take("key:a", limit, 0), { allowed: false, remaining: 0, retryAfterMs: 1000 });
+    assert.deepEqual(await store.take("key:a", limit, 400), { allowed: false, remaining: 0, retryAfterMs: 600 });
+  });
+
+  test("refills over time, up to the capacity", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.take("key:a", limit, 0);
+    await store.take("key:a", limit, 0);
+
+    assert.equal((await store.take("key:a", limit, 1000)).allowed, true);
+    assert.equal((await store.take("key:a", limit, 1000)).allowed, false);
+    assert.equal((await store.take("key:a", limit, 600_000)).remaining, 1);
+  });
+
+  test("keeps each key's bucket apart", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.take("key:a", limit, 0);
+    await store.take("key:a", limit, 0);
+
+    assert.equal((await store.take("key:b", limit, 0)).allowed, true);
+  });
+});
+
+describe("enforceRateLimit", () => {
+  const environment = { ...process.env };
+  const client = (bucket: string | null): ApiClient => ({ id: "anon:test", bucket, kind: "anonymous", name: "test" });
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env.RATE_LIMIT_IP_PER_MINUTE = "1";
+  });
+
+  after(() => {
+    process.env = environment;
+  });
+
+  test("answers an empty bucket with a 429 and Retry-After", async () => {
+    await enforceRateLimit(client("ip:203.0.113.7"), 0);
+    const error = await enforceRateLimit(client("ip:203.0.113.7"), 0).catch((err) => err);
+
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 429);
+    assert.equal(error.headers["Retry-After"], "60");
+    assert.equal(error.headers["X-RateLimit-Limit"], "1");
+  });
+
+  test("doesn't limit callers without a bucket", async () => {
+    await enforceRateLimit(client(null), 0);
+    await enforceRateLimit(client(null), 0);
+  });
+
+  test("turns the limit off at 0", async () => {
+    process.env.RATE_LIMIT_IP_PER_MINUTE = "0";
+
+    await enforceRateLimit(client("ip:203.0.113.7"), 0);
+    await enforceRateLimit(client("ip:203.0.113.7"), 0);
+  });
+});
+
+describe("authenticate", () => {
+  const environment = { ...process.env };
+  let authenticate: (request: Request) => ApiClient;
+
+  const request = (headers: Record<string, string>) => new Request("http://localhost/api/extract", { headers });
+  const status = (headers: Record<string, string>) => {
+    try {
+      authenticate(request(headers));
+      return 200;
+    } catch (error) {
+      return error instanceof ApiError ? error.status : 500;
+    }
+  };
+
+  before(async () => {
+    // Keys are read when the module loads.
+    process.env.API_KEYS = "reporting:sk_test_reporting,sk_test_bare";
+    ({ authenticate } = await import("@/lib/auth"));
+  });
+
+  beforeEach(() => {
+    delete process.env.API_AUTH;
+    delete process.env.TRUSTED_PROXY_COUNT;
+  });
+
+  after(() => {
+    process.env = environment;
+  });
+
+  test("identifies a key holder by the key's name", () => {
+    assert.deepEqual(authenticate(request({ Authorization: "Bearer sk_test_reporting" })), {
+      id: "key:reporting",
+      bucket: "key:reporting",
+      kind: "key",
+      name: "reporting",
+    });
+    assert.equal(authenticate(request({ "X-API-Key": "sk_test_bare" })).id, "key:key-2");
+  });
+
+  test("refuses a wrong, empty or non-bearer key", () => {
+    assert.equal(status({ Authorization: "Bearer sk_test_wrong" }), 401);
+    assert.equal(status({ Authorization: "Bearer" }), 401);
+    assert.equal(status({ Authorization: "Basic c2tfdGVzdA==" }), 401);
+    assert.equal(status({ "X-API-Key": "" }), 401);
+  });
+
+  test("refuses anonymous callers when keys are required", () => {
+    process.env.API_AUTH = "required";
+
+    assert.equal(status({}), 401);
+    assert.equal(status({ "X-API-Key": "sk_test_bare" }), 200);
+  });
+
+  test("scopes an anonymous caller to its client id, without a bucket when the IP is unknown", () => {
+    const client = authenticate(request({ "X-Client-Id": "0f9c2b7e-5d1a-4c3e-8b6f-2a7d9e1c4b50" }));
+
+    assert.equal(client.id, "anon:0f9c2b7e-5d1a-4c3e-8b6f-2a7d9e1c4b50");
+    assert.equal(client.bucket, null);
+  });
+
+  test("gives anonymous callers without a valid client id an identity of their own", () => {
+    const first = authenticate(request({ "X-Client-Id": "short" }));
+    const second = authenticate(request({ "X-Client-Id": "short" }));
+
+    assert.notEqual(first.id, second.id);
+  });
+
+  test("ignores X-Forwarded-For unless a proxy is trusted", () => {
+    const forwarded = { "X-Forwarded-For": "198.51.100.1, 203.0.113.7" };
+    assert.equal(authenticate(request(forwarded)).bucket, null);
+
+    process.env.TRUSTED_PROXY_COUNT = "1";
+    const client = authenticate(request(forwarded));
+
+    assert.equal(client.bucket, "ip:203.0.113.7");
+    assert.equal(client.id, "ip:203.0.113.7");
+  });
+});
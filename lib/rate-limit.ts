@@ -0,0 +1,113 @@
+import { ApiError } from "@/lib/api-error";
+import type { ApiClient } from "@/lib/auth";
+
+export interface BucketLimit {
+  /** Bucket size: how many requests can arrive at once after a quiet period. */
+  capacity: number;
+  /** Tokens added back per minute. */
+  refillPerMinute: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** When refused, how long until a token is available. */
+  retryAfterMs: number;
+}
+
+/**
+ * Token-bucket state per client. `take` must be atomic per key, so a shared
+ * store (e.g. Redis) should implement it as a single script or transaction.
+ */
+export interface RateLimitStore {
+  take(key: string, limit: BucketLimit, now?: number): Promise<TakeResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: BucketLimit;
+}
+
+// Buckets that have refilled completely carry no state, so they can be dropped.
+const SWEEP_INTERVAL = 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  let takes = 0;
+
+  const refill = ({ tokens, updatedAt, limit }: Bucket, now: number) =>
+    Math.min(limit.capacity, tokens + ((now - updatedAt) * limit.refillPerMinute) / 60_000);
+
+  return {
+    async take(key, limit, now = Date.now()) {
+      if (++takes % SWEEP_INTERVAL === 0) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (refill(bucket, now) >= bucket.limit.capacity) buckets.delete(bucketKey);
+        }
+      }
+
+      const bucket = buckets.get(key);
+      // A changed limit applies from now on; tokens already earned are kept up to the new capacity.
+      const tokens = bucket ? Math.min(limit.capacity, refill(bucket, now)) : limit.capacity;
+
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: now, limit });
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(((1 - tokens) * 60_000) / limit.refillPerMinute) };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: now, limit });
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+/** Process-wide store. Limits are per server instance; share a store across instances to enforce them globally. */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createMemoryRateLimitStore();
+  }
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+const limitFromEnv = (value: string | undefined, fallback: number): BucketLimit | null => {
+  const perMinute = value === undefined || value === "" ? fallback : Number(value);
+  if (!Number.isFinite(perMinute) || perMinute <= 0) return null;
+  return { capacity: perMinute, refillPerMinute: perMinute };
+};
+
+/**
+ * Limits per client kind: RATE_LIMIT_KEY_PER_MINUTE for API keys (default 120),
+ * RATE_LIMIT_IP_PER_MINUTE for anonymous callers (default 20). 0 turns a limit off.
+ */
+export const getRateLimit = (client: ApiClient): BucketLimit | null =>
+  client.kind === "key"
+    ? limitFromEnv(process.env.RATE_LIMIT_KEY_PER_MINUTE, 120)
+    : limitFromEnv(process.env.RATE_LIMIT_IP_PER_MINUTE, 20);
+
+/**
+ * Spends one token for the client, or throws a 429 with `Retry-After` when its bucket is empty.
+ * Clients without a bucket (anonymous callers whose IP is unknown) aren't limited.
+ */
+export async function enforceRateLimit(client: ApiClient, now = Date.now()) {
+  const limit = getRateLimit(client);
+  if (!limit || !client.bucket) return;
+
+  const result = await getRateLimitStore().take(client.bucket, limit, now);
+  if (result.allowed) return;
+
+  const error = new ApiError(429, "rate_limited", "Too many requests. Please slow down and try again shortly.", {
+    retry_after_ms: result.retryAfterMs,
+  });
+  error.headers["Retry-After"] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  error.headers["X-RateLimit-Limit"] = String(limit.capacity);
+  error.headers["X-RateLimit-Remaining"] = "0";
+  throw error;
+}
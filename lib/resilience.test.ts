@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { APICallError } from "ai";
+import { getCategorySet } from "@/lib/categories";
+import { ProviderError } from "@/lib/providers/errors";
+import { extractWithFallback, FallbackChainError, type ResilienceOptions } from "@/lib/providers/resilience";
+import type { ExtractionProvider, ExtractionResult } from "@/lib/providers/types";
+
+const input = { image: "data:image/jpeg;base64,", mimeType: "image/jpeg", categories: getCategorySet() };
+
+const options: ResilienceOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, timeoutMs: 1000 };
+
+const usage = (inputTokens: number, outputTokens: number) => ({
+  inputTokens,
+  outputTokens,
+  totalTokens: inputTokens + outputTokens,
+});
+
+/** A provider that answers each call with the next outcome in the list, counting its calls. */
+function scripted(id: string, outcomes: (ExtractionResult | Error)[]) {
+  const provider = {
+    id,
+    model: `${id}-model`,
+    supportsPdf: false,
+    calls: 0,
+    async extract() {
+      const outcome = outcomes[Math.min(provider.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+  };
+  return provider satisfies ExtractionProvider;
+}
+
+const rateLimited = () =>
+  new APICallError({
+    message: "Too Many Requests",
+    url: "https://example.test",
+    requestBodyValues: {},
+    statusCode: 429,
+    responseHeaders: { "retry-after-ms": "1" },
+  });
+
+const answer = (model: string): ExtractionResult => ({ bills: [], model, usage: usage(100, 20) });
+
+describe("extractWithFallback", () => {
+  test("retries a rate-limited provider, then falls back to the next one", async () => {
+    const primary = scripted("primary", [rateLimited()]);
+    const fallback = scripted("fallback", [answer("fallback-model")]);
+
+    const result = await extractWithFallback([primary, fallback], input, options);
+
+    assert.equal(result.provider, "fallback");
+    assert.equal(primary.calls, 3);
+    assert.deepEqual(
+      result.attempts.map(({ provider, attempts, error }) => [provider, attempts, error?.kind]),
+      [
+        ["primary", 3, "rate_limit"],
+        ["fallback", 1, undefined],
+      ]
+    );
+  });
+
+  test("returns as soon as a retry succeeds", async () => {
+    const primary = scripted("primary", [rateLimited(), answer("primary-model")]);
+    const fallback = scripted("fallback", [answer("fallback-model")]);
+
+    const result = await extractWithFallback([primary, fallback], input, options);
+
+    assert.equal(result.provider, "primary");
+    assert.equal(result.attempts[0].attempts, 2);
+    assert.equal(fallback.calls, 0);
+  });
+
+  test("does not retry an error that won't go away", async () => {
+    const primary = scripted("primary", [new ProviderError("auth", "primary", "Invalid API key")]);
+    const fallback = scripted("fallback", [answer("fallback-model")]);
+
+    await extractWithFallback([primary, fallback], input, options);
+
+    assert.equal(primary.calls, 1);
+  });
+
+  test("adds up the tokens of failed calls and the one that succeeded", async () => {
+    const invalid = new ProviderError("invalid_response", "primary", "No object generated");
+    invalid.usage = usage(100, 5);
+    const primary = scripted("primary", [invalid]);
+    const fallback = scripted("fallback", [answer("fallback-model")]);
+
+    const result = await extractWithFallback([primary, fallback], input, options);
+
+    assert.deepEqual(result.attempts[0].usage, usage(100, 5));
+    assert.deepEqual(result.attempts[1].usage, usage(100, 20));
+  });
+
+  test("times out a provider that never answers", async () => {
+    const hanging: ExtractionProvider = {
+      id: "hanging",
+      model: "hanging-model",
+      supportsPdf: false,
+      // The fallback timer keeps the test process alive; AbortSignal.timeout alone doesn't.
+      extract: ({ signal }) =>
+        new Promise((_, reject) => {
+          const timer = setTimeout(() => reject(new Error("The attempt was never aborted")), 1000);
+          signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+          });
+        }),
+    };
+
+    const error = await extractWithFallback([hanging], input, { ...options, maxRetries: 0, timeoutMs: 10 }).catch(
+      (err) => err
+    );
+
+    assert.ok(error instanceof FallbackChainError);
+    assert.equal(error.lastError.kind, "timeout");
+  });
+
+  test("stops the chain when the caller cancels", async () => {
+    const controller = new AbortController();
+    const primary = scripted("primary", [rateLimited()]);
+    const fallback = scripted("fallback", [answer("fallback-model")]);
+    controller.abort();
+
+    const error = await extractWithFallback([primary, fallback], input, { ...options, signal: controller.signal }).catch(
+      (err) => err
+    );
+
+    assert.ok(error instanceof FallbackChainError);
+    assert.equal(error.lastError.kind, "aborted");
+    assert.equal(fallback.calls, 0);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import { getCategorySet } from "@/lib/categories";
+import type { ExtractionProvider } from "@/lib/providers";
+import {
+  createFileResultCache,
+  createMemoryResultCache,
+  extractionCacheKey,
+  type CachedExtraction,
+} from "@/lib/result-cache";
+
+const provider = (id: string, model: string): ExtractionProvider => ({
+  id,
+  model,
+  supportsPdf: true,
+  extract: async () => ({ bills: [], model }),
+});
+
+const gemini = provider("gemini", "gemini-2.5-flash");
+const receipt = new Uint8Array([0xff, 0xd8, 0xff, 1, 2, 3]);
+
+const entry = (model: string): CachedExtraction => ({
+  bills: [],
+  provider: "gemini",
+  model,
+  created_at: "2024-03-14T10:00:00.000Z",
+});
+
+describe("extractionCacheKey", () => {
+  const key = extractionCacheKey(receipt, gemini, getCategorySet("default"));
+
+  test("is the same for the same document, provider and prompt", () => {
+    assert.equal(extractionCacheKey(receipt.slice(), gemini, getCategorySet("default")), key);
+  });
+
+  test("changes with the document, the model, the department or the output language", () => {
+    const others = [
+      extractionCacheKey(new Uint8Array([0xff, 0xd8, 0xff, 1, 2, 4]), gemini, getCategorySet("default")),
+      extractionCacheKey(receipt, provider("gemini", "gemini-2.5-pro"), getCategorySet("default")),
+      extractionCacheKey(receipt, gemini, getCategorySet("field-sales")),
+      extractionCacheKey(receipt, gemini, getCategorySet("default"), "en"),
+    ];
+
+    assert.equal(new Set([key, ...others]).size, 5);
+  });
+});
+
+describe("memory result cache", () => {
+  test("evicts the least recently used entry", async () => {
+    const cache = createMemoryResultCache({ maxEntries: 2, ttlMs: 60_000 });
+    await cache.set("a", entry("a"));
+    await cache.set("b", entry("b"));
+    await cache.get("a");
+    await cache.set("c", entry("c"));
+
+    assert.equal((await cache.get("a"))?.model, "a");
+    assert.equal(await cache.get("b"), null);
+    assert.equal((await cache.get("c"))?.model, "c");
+  });
+
+  test("misses once an entry has expired", async () => {
+    const cache = createMemoryResultCache({ maxEntries: 2, ttlMs: 0 });
+    await cache.set("a", entry("a"));
+
+    assert.equal(await cache.get("a"), null);
+  });
+});
+
+describe("file result cache", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "result-cache-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("reads back what it wrote, creating the directory", async () => {
+    const cache = createFileResultCache({ directory: join(directory, "nested"), ttlMs: 60_000 });
+    await cache.set("a1", entry("a"));
+
+    assert.deepEqual(await cache.get("a1"), entry("a"));
+    assert.equal(await cache.get("b2"), null);
+  });
+
+  test("removes an expired entry when reading it", async () => {
+    const cache = createFileResultCache({ directory, ttlMs: 0 });
+    await cache.set("expired", entry("a"));
+
+    assert.equal(await cache.get("expired"), null);
+    assert.equal((await readdir(directory)).includes("expired.json"), false);
+  });
+
+  test("treats a partly written file as a miss", async () => {
+    const cache = createFileResultCache({ directory, ttlMs: 60_000 });
+    await writeFile(join(directory, "torn.json"), '{"value":{"bills":[');
+
+    assert.equal(await cache.get("torn"), null);
+  });
+});
@@ -0,0 +1,137 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { LanguageModelUsage } from "ai";
+import type { CategorySet } from "@/lib/categories";
+import { EXTRACTION_SCHEMA_VERSION, type ExtractedBill } from "@/lib/expense";
+import { buildSystemPrompt, userPrompt } from "@/lib/prompt";
+import type { ExtractionProvider } from "@/lib/providers";
+
+/** A provider's answer for one document, before post-processing. */
+export interface CachedExtraction {
+  bills: ExtractedBill[];
+  provider: string;
+  model: string;
+  /** What the original call cost; a hit costs nothing. */
+  usage?: LanguageModelUsage;
+  created_at: string;
+}
+
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+export interface ResultCache {
+  get(key: string): Promise<CachedExtraction | null>;
+  set(key: string, value: CachedExtraction): Promise<void>;
+}
+
+/**
+ * Everything that changes the provider's answer: the document bytes, which
+ * provider and model read it, the prompt (which lists the department's
+ * categories and any output language) and the schema version.
+ */
+export function extractionCacheKey(
+  bytes: Uint8Array,
+  provider: ExtractionProvider,
+  categories: CategorySet,
+  outputLanguage?: string
+): string {
+  const documentHash = createHash("sha256").update(bytes).digest("hex");
+
+  return createHash("sha256")
+    .update(JSON.stringify([EXTRACTION_SCHEMA_VERSION, documentHash, provider.id, provider.model, buildSystemPrompt(categories, outputLanguage), userPrompt]))
+    .digest("hex");
+}
+
+interface Entry {
+  value: CachedExtraction;
+  expires_at: number;
+}
+
+/** Least-recently-used eviction past `maxEntries`; a Map keeps insertion order, so a hit re-inserts. */
+export function createMemoryResultCache({ maxEntries, ttlMs }: { maxEntries: number; ttlMs: number }): ResultCache {
+  const entries = new Map<string, Entry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expires_at <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expires_at: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+/** One JSON file per key. Expired files are removed when next read; nothing sweeps the rest. */
+export function createFileResultCache({ directory, ttlMs }: { directory: string; ttlMs: number }): ResultCache {
+  // Keys are hex digests, so they are safe as file names.
+  const pathFor = (key: string) => join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      let entry: Entry;
+      try {
+        entry = JSON.parse(await readFile(pathFor(key), "utf8"));
+      } catch {
+        // Missing, or partly written by a crashed process; either way a miss.
+        return null;
+      }
+
+      if (entry.expires_at <= Date.now()) {
+        await rm(pathFor(key), { force: true });
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value) {
+      await mkdir(directory, { recursive: true });
+      const entry: Entry = { value, expires_at: Date.now() + ttlMs };
+      await writeFile(pathFor(key), JSON.stringify(entry), "utf8");
+    },
+  };
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+export const DEFAULT_CACHE_DIRECTORY = ".data/cache";
+
+let cache: ResultCache | null | undefined;
+
+/**
+ * Process-wide cache chosen by EXTRACTION_CACHE: "memory" (default, an LRU of
+ * EXTRACTION_CACHE_MAX_ENTRIES), "filesystem" (files in EXTRACTION_CACHE_DIR)
+ * or "off". Entries live for EXTRACTION_CACHE_TTL_SECONDS (default one day).
+ */
+export function getResultCache(): ResultCache | null {
+  if (cache === undefined) {
+    const ttlMs = (Number(process.env.EXTRACTION_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000;
+
+    switch (process.env.EXTRACTION_CACHE || "memory") {
+      case "off":
+        cache = null;
+        break;
+      case "filesystem":
+        cache = createFileResultCache({ directory: process.env.EXTRACTION_CACHE_DIR || DEFAULT_CACHE_DIRECTORY, ttlMs });
+        break;
+      default:
+        cache = createMemoryResultCache({
+          maxEntries: Number(process.env.EXTRACTION_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+          ttlMs,
+        });
+    }
+  }
+  return cache;
+}
+
+export function setResultCache(next: ResultCache | null) {
+  cache = next;
+}
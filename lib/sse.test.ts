@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { EXTRACTION_STAGES, runExtraction, type StageEvent } from "@/lib/extraction";
+import { createMemoryFingerprintStore, setFingerprintStore } from "@/lib/fingerprint-store";
+import { encodeEvent, readEvents, type ServerSentEvent } from "@/lib/sse";
+import { createMemoryUsageSink, setUsageSink } from "@/lib/usage-sink";
+
+/** A response body that delivers the given pieces as separate chunks. */
+const streamOf = (chunks: (string | Uint8Array)[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder();
+      for (const chunk of chunks) controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      controller.close();
+    },
+  });
+
+async function collect(chunks: (string | Uint8Array)[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readEvents(streamOf(chunks))) events.push(event);
+  return events;
+}
+
+describe("readEvents", () => {
+  test("reads back what encodeEvent wrote", async () => {
+    const events = await collect([
+      encodeEvent("stage", { stage: "validated" }),
+      encodeEvent("result", { note: "two\nlines" }),
+    ]);
+
+    assert.deepEqual(events, [
+      { event: "stage", data: { stage: "validated" } },
+      { event: "result", data: { note: "two\nlines" } },
+    ]);
+  });
+
+  test("joins an event split across chunks", async () => {
+    const text = encodeEvent("partial", { bills: [{ merchant_name: "Spice Garden" }] });
+
+    const events = await collect([text.slice(0, 10), text.slice(10, 25), text.slice(25)]);
+
+    assert.deepEqual(events, [{ event: "partial", data: { bills: [{ merchant_name: "Spice Garden" }] } }]);
+  });
+
+  test("keeps a character whose bytes are split across chunks", async () => {
+    const bytes = new TextEncoder().encode(encodeEvent("result", { amount: "₹1,250.00" }));
+    const split = bytes.indexOf(0xe2) + 1;
+
+    const events = await collect([bytes.slice(0, split), bytes.slice(split)]);
+
+    assert.deepEqual(events, [{ event: "result", data: { amount: "₹1,250.00" } }]);
+  });
+
+  test("accepts CRLF line endings, multi-line data and the default event name", async () => {
+    const events = await collect(['data: {"a":\r\ndata: 1}\r\n\r\n']);
+
+    assert.deepEqual(events, [{ event: "message", data: { a: 1 } }]);
+  });
+
+  test("skips comments and drops an event cut off by the end of the stream", async () => {
+    const events = await collect([": keep-alive\n\n", encodeEvent("stage", { stage: "model_called" }), 'event: result\ndata: {"succ']);
+
+    assert.deepEqual(events, [{ event: "stage", data: { stage: "model_called" } }]);
+  });
+});
+
+describe("extraction stages", () => {
+  test("are reported by the pipeline in the listed order", async () => {
+    setFingerprintStore(createMemoryFingerprintStore());
+    setUsageSink(createMemoryUsageSink());
+    const stages: StageEvent[] = [];
+
+    await runExtraction(
+      { bytes: new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0xff, 0xd9]), mimeType: "image/jpeg", provider: "mock" },
+      "key:reporting",
+      { onStage: (event) => stages.push(event) }
+    );
+
+    // The route reports "validated" itself, before the pipeline starts.
+    assert.deepEqual(
+      stages.map(({ stage }) => stage),
+      EXTRACTION_STAGES.filter((stage) => stage !== "validated")
+    );
+    assert.deepEqual(stages[0], { stage: "model_called", provider: "mock", attempt: 1 });
+  });
+});
@@ -0,0 +1,14 @@
+import { createIndexedDbStore } from "./indexeddb";
+import type { ExpenseStore } from "./types";
+
+export type { ExpenseRecord, ExpenseStore } from "./types";
+
+let store: ExpenseStore | null = null;
+
+/** Client-side expense store. Only call from the browser. */
+export function getExpenseStore(): ExpenseStore {
+  if (!store) {
+    store = createIndexedDbStore();
+  }
+  return store;
+}
@@ -0,0 +1,53 @@
+import type { ExpenseRecord, ExpenseStore } from "./types";
+
+const DB_VERSION = 1;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function createIndexedDbStore(dbName = "image-parse", storeName = "expenses"): ExpenseStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      };
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  const get = async (id: string) => (await withStore<ExpenseRecord | undefined>("readonly", (store) => store.get(id))) ?? null;
+
+  return {
+    async list() {
+      const records = await withStore<ExpenseRecord[]>("readonly", (store) => store.getAll());
+      return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    get,
+    async save(record) {
+      await withStore("readwrite", (store) => store.put(record));
+    },
+    async update(id, patch) {
+      const existing = await get(id);
+      if (!existing) return null;
+      const updated = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+      await withStore("readwrite", (store) => store.put(updated));
+      return updated;
+    },
+    async delete(id) {
+      await withStore("readwrite", (store) => store.delete(id));
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import type { ReceiptFingerprint } from "@/lib/duplicates";
+import type { ProcessedBill } from "@/lib/postprocess";
+
+export interface ExpenseRecord {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  /** Small JPEG data URL for lists; null for documents that can't be drawn (PDFs). */
+  thumbnail: string | null;
+  /** The original upload, kept so a receipt can be reopened and re-extracted. */
+  file: Blob;
+  /** The preprocessed image that was extracted, which field boxes refer to; missing when it was the original. */
+  extractedImage?: Blob;
+  bills: ProcessedBill[];
+  /** Hashes used to spot the same receipt being submitted again; missing on records saved before they existed. */
+  fingerprint?: ReceiptFingerprint;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for extracted expenses. The browser uses IndexedDB; a server
+ * store only needs to implement the same methods.
+ */
+export interface ExpenseStore {
+  list(): Promise<ExpenseRecord[]>;
+  get(id: string): Promise<ExpenseRecord | null>;
+  save(record: ExpenseRecord): Promise<void>;
+  update(id: string, patch: Partial<Omit<ExpenseRecord, "id" | "createdAt">>): Promise<ExpenseRecord | null>;
+  delete(id: string): Promise<void>;
+}
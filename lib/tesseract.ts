@@ -0,0 +1,69 @@
+import { createWorker, type ImageLike, type Rectangle } from "tesseract.js";
+import type { OcrWord } from "@/lib/field-boxes";
+
+export interface OcrProgress {
+  status: string;
+  progress: number;
+}
+
+export interface OcrOptions {
+  onProgress?: (progress: OcrProgress) => void;
+  signal?: AbortSignal;
+  /** Only read this part of the image, in pixels. */
+  rectangle?: Rectangle;
+}
+
+export interface OcrResult {
+  text: string;
+  /** Every word with its pixel bounds, in reading order. */
+  words: OcrWord[];
+}
+
+/**
+ * Runs Tesseract locally: in the browser for Basic OCR mode, or in Node for the
+ * server-side provider. The image is not sent anywhere, but the language data (and in
+ * the browser, the worker and WASM core) are fetched from tesseract.js's default CDN,
+ * so it needs a network connection. Aborting `signal` rejects with its reason and shuts
+ * the worker down.
+ */
+export async function recognize(image: ImageLike, { onProgress, signal, rectangle }: OcrOptions = {}): Promise<OcrResult> {
+  const worker = await createWorker("eng", 1, {
+    logger: (message) => onProgress?.({ status: message.status, progress: message.progress }),
+  });
+
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    signal?.throwIfAborted();
+    const { data } = await Promise.race([worker.recognize(image, { rectangle }, { text: true, blocks: true }), aborted]);
+
+    let line = 0;
+    const words: OcrWord[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const textLine of paragraph.lines) {
+          words.push(...textLine.words.map((word) => ({ text: word.text, line, bbox: word.bbox })));
+          line++;
+        }
+      }
+    }
+
+    return { text: data.text, words };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    await worker.terminate();
+  }
+}
+
+/** Just the text of `recognize`. */
+export async function recognizeText(
+  image: ImageLike,
+  onProgress?: (progress: OcrProgress) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  return (await recognize(image, { onProgress, signal })).text;
+}
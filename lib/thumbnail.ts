@@ -0,0 +1,19 @@
+import { isPdf } from "@/lib/expense";
+
+/** Draws a small JPEG preview of an image file. Returns null for PDFs or undecodable files. */
+export async function createThumbnail(file: Blob, maxSize = 240): Promise<string | null> {
+  if (isPdf(file.type)) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return null;
+  }
+}
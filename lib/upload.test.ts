@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ApiError } from "@/lib/api-error";
+import { MAX_UPLOAD_BYTES, parseExtractionRequest } from "@/lib/upload";
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, ...new Array(100).fill(0), 0xff, 0xd9]);
+
+const CHUNK_SIZE = 1024 * 1024;
+
+/** A chunked body with no Content-Length that would go on for `chunks` MB, counting how many were read. */
+function endlessBody(chunks: number) {
+  const stats = { pulled: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stats.pulled === chunks) return controller.close();
+      stats.pulled++;
+      controller.enqueue(new Uint8Array(CHUNK_SIZE));
+    },
+  });
+  return { body, stats };
+}
+
+const isTooLarge = (error: unknown) => error instanceof ApiError && error.status === 413;
+
+describe("parseExtractionRequest", () => {
+  test("stops reading a chunked body once it passes the limit", async () => {
+    const { body, stats } = endlessBody(1000);
+    const request = new Request("http://localhost/api/extract", {
+      method: "POST",
+      headers: { "Content-Type": "image/jpeg" },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    await assert.rejects(parseExtractionRequest(request), isTooLarge);
+    assert.ok(stats.pulled <= MAX_UPLOAD_BYTES / CHUNK_SIZE + 2, `read ${stats.pulled} chunks`);
+  });
+
+  test("refuses a declared length over the limit without reading", async () => {
+    const request = new Request("http://localhost/api/extract", {
+      method: "POST",
+      headers: { "Content-Type": "image/jpeg", "Content-Length": String(MAX_UPLOAD_BYTES + 1) },
+      body: jpeg,
+    });
+    await assert.rejects(parseExtractionRequest(request), isTooLarge);
+  });
+
+  test("reads raw, multipart and JSON bodies", async () => {
+    const raw = await parseExtractionRequest(
+      new Request("http://localhost/api/extract?provider=mock", { method: "POST", headers: { "Content-Type": "image/jpeg" }, body: jpeg })
+    );
+    assert.equal(raw.provider, "mock");
+
+    const form = new FormData();
+    form.append("file", new Blob([jpeg], { type: "image/jpeg" }), "receipt.jpg");
+    form.append("department", "default");
+    const multipart = await parseExtractionRequest(new Request("http://localhost/api/extract", { method: "POST", body: form }));
+    assert.equal(multipart.mimeType, "image/jpeg");
+    assert.equal(multipart.bytes.length, jpeg.length);
+
+    const json = await parseExtractionRequest(
+      new Request("http://localhost/api/extract", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ image: Buffer.from(jpeg).toString("base64") }),
+      })
+    );
+    assert.deepEqual(json.bytes, jpeg);
+  });
+});
@@ -0,0 +1,291 @@
+import { z } from "zod";
+import { ApiError } from "@/lib/api-error";
+import { DEPARTMENTS, isDepartment } from "@/lib/categories";
+import { PERCEPTUAL_HASH_PATTERN } from "@/lib/duplicates";
+import { LANGUAGE_CODE_PATTERN } from "@/lib/locale";
+import { isProviderId, PROVIDER_IDS } from "@/lib/providers";
+
+export const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 10) * 1024 * 1024;
+
+export const SUPPORTED_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+] as const;
+
+export type SupportedMimeType = (typeof SUPPORTED_MIME_TYPES)[number];
+
+const isSupported = (mimeType: string): mimeType is SupportedMimeType =>
+  (SUPPORTED_MIME_TYPES as readonly string[]).includes(mimeType);
+
+// Declared types that say nothing about the content; the bytes decide.
+const GENERIC_MIME_TYPES = new Set(["", "application/octet-stream", "binary/octet-stream"]);
+
+// Form fields and clients often send "" for "not set".
+const optional = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === null ? undefined : value), schema.optional());
+
+const optionsSchema = z.object({
+  provider: optional(
+    z.string().refine(isProviderId, { message: `Unknown provider. Expected one of: ${PROVIDER_IDS.join(", ")}` })
+  ),
+  department: optional(
+    z.string().refine(isDepartment, { message: `Unknown department. Expected one of: ${DEPARTMENTS.join(", ")}` })
+  ),
+  perceptual_hash: optional(z.string().regex(PERCEPTUAL_HASH_PATTERN, "Must be 16 lowercase hex characters")),
+  /** Language to translate merchant names and line items into, e.g. "en"; as printed when unset. */
+  output_language: optional(z.string().regex(LANGUAGE_CODE_PATTERN, "Must be a language code such as en or de")),
+  /** The caller's id for this file, e.g. its place in a batch; a retry that sends the same id isn't reported as a duplicate of itself. */
+  upload_id: optional(z.string().max(200, "Must be at most 200 characters")),
+  /** Skip the result cache and call the provider again. Accepts true/false or "1"/"0" from forms and query strings. */
+  force: optional(z.preprocess((value) => (typeof value === "boolean" ? String(value) : value), z.stringbool())),
+});
+
+const jsonBodySchema = optionsSchema.extend({
+  /** Base64 or a `data:` URL. */
+  image: z.string({ error: "No image provided" }).min(1, "No image provided"),
+  mimeType: optional(z.string()),
+});
+
+export type ExtractionOptions = z.infer<typeof optionsSchema>;
+
+const jobOptionsSchema = z.object({
+  /** Where the result is POSTed when the job finishes. */
+  callback_url: optional(z.url({ protocol: /^https?$/, error: "Must be an http or https URL" })),
+});
+
+export type JobOptions = z.infer<typeof jobOptionsSchema>;
+
+export interface ExtractionRequest extends ExtractionOptions {
+  bytes: Uint8Array<ArrayBuffer>;
+  /** Detected from the file's content, not taken from the client. */
+  mimeType: SupportedMimeType;
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const hasBytes = (bytes: Uint8Array, expected: number[], offset = 0) =>
+  expected.every((byte, i) => bytes[offset + i] === byte);
+
+const containsNear = (bytes: Uint8Array, expected: number[], fromEnd: number) => {
+  for (let i = Math.max(0, bytes.length - fromEnd); i <= bytes.length - expected.length; i++) {
+    if (hasBytes(bytes, expected, i)) return true;
+  }
+  return false;
+};
+
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+
+/** File type from its leading magic bytes, or null when it isn't a supported format. */
+export function sniffMimeType(bytes: Uint8Array): SupportedMimeType | null {
+  if (hasBytes(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (hasBytes(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (hasBytes(bytes, ascii("GIF87a")) || hasBytes(bytes, ascii("GIF89a"))) return "image/gif";
+  if (hasBytes(bytes, ascii("RIFF")) && hasBytes(bytes, ascii("WEBP"), 8)) return "image/webp";
+  if (hasBytes(bytes, ascii("%PDF-"))) return "application/pdf";
+  if (hasBytes(bytes, ascii("ftyp"), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (HEIC_BRANDS.includes(brand)) return "image/heic";
+    if (HEIF_BRANDS.includes(brand)) return "image/heif";
+  }
+  return null;
+}
+
+// Formats with an end marker: a missing one means the upload was cut short.
+const isTruncated = (bytes: Uint8Array, mimeType: SupportedMimeType) => {
+  switch (mimeType) {
+    case "image/jpeg":
+      return !containsNear(bytes, [0xff, 0xd9], 1024);
+    case "image/png":
+      return !containsNear(bytes, ascii("IEND"), 64);
+    case "application/pdf":
+      return !containsNear(bytes, ascii("%%EOF"), 1024);
+    default:
+      return false;
+  }
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const tooLarge = (size?: number) =>
+  new ApiError(
+    413,
+    "payload_too_large",
+    `File is too large${size ? ` (${formatMegabytes(size)})` : ""}. The limit is ${formatMegabytes(MAX_UPLOAD_BYTES)}.`
+  );
+
+const invalidRequest = (error: z.ZodError) =>
+  new ApiError(400, "invalid_request", error.issues[0]?.message ?? "Invalid request", {
+    details: z.flattenError(error).fieldErrors,
+  });
+
+/** Checks size, type and integrity of an uploaded document and returns its real type. */
+export function validateDocument(bytes: Uint8Array, declaredType: string | null): SupportedMimeType {
+  if (bytes.length === 0) {
+    throw new ApiError(400, "invalid_request", "No image provided");
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    throw tooLarge(bytes.length);
+  }
+
+  const declared = declaredType?.toLowerCase() ?? "";
+  if (!GENERIC_MIME_TYPES.has(declared) && !isSupported(declared)) {
+    throw new ApiError(415, "unsupported_media_type", `Unsupported file type "${declared}"`, {
+      details: { supported: SUPPORTED_MIME_TYPES },
+    });
+  }
+
+  const sniffed = sniffMimeType(bytes);
+  if (!sniffed) {
+    throw isSupported(declared)
+      ? new ApiError(422, "unprocessable_document", `The file is corrupt or is not a valid ${declared} document`)
+      : new ApiError(415, "unsupported_media_type", "Unrecognized file type", {
+          details: { supported: SUPPORTED_MIME_TYPES },
+        });
+  }
+  if (isTruncated(bytes, sniffed)) {
+    throw new ApiError(422, "unprocessable_document", "The file appears to be truncated or corrupt");
+  }
+
+  return sniffed;
+}
+
+const parseOptions = <T extends z.ZodType>(schema: T, input: Record<string, unknown>): z.infer<T> => {
+  const result = schema.safeParse(input);
+  if (!result.success) throw invalidRequest(result.error);
+  return result.data;
+};
+
+/** A parsed request plus its raw option fields, for endpoints that accept more options. */
+interface ParsedBody {
+  input: ExtractionRequest;
+  fields: Record<string, unknown>;
+}
+
+async function parseJsonBody(raw: Uint8Array): Promise<ParsedBody> {
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new ApiError(400, "invalid_request", "Request body is not valid JSON");
+  }
+
+  const result = jsonBodySchema.safeParse(body);
+  if (!result.success) throw invalidRequest(result.error);
+
+  const { image, mimeType, ...options } = result.data;
+  const dataUrl = image.match(/^data:([^;,]*)(?:;[^,]*)?,([\s\S]*)$/);
+  const bytes = new Uint8Array(Buffer.from(dataUrl ? dataUrl[2] : image, "base64"));
+
+  return {
+    input: { ...options, bytes, mimeType: validateDocument(bytes, dataUrl?.[1] || mimeType || null) },
+    fields: body as Record<string, unknown>,
+  };
+}
+
+async function parseMultipartBody(raw: Uint8Array<ArrayBuffer>, contentType: string): Promise<ParsedBody> {
+  let form: FormData;
+  try {
+    form = await new Response(raw, { headers: { "Content-Type": contentType } }).formData();
+  } catch {
+    throw new ApiError(400, "invalid_request", "Malformed multipart body");
+  }
+
+  const file = form.get("file") ?? form.get("image");
+  if (!(file instanceof Blob)) {
+    throw new ApiError(400, "invalid_request", 'No file provided. Send the document in a "file" field.');
+  }
+
+  const fields = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === "string"));
+  const options = parseOptions(optionsSchema, fields);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  return { input: { ...options, bytes, mimeType: validateDocument(bytes, file.type) }, fields };
+}
+
+function parseBinaryBody(request: Request, bytes: Uint8Array<ArrayBuffer>, contentType: string): ParsedBody {
+  const fields = Object.fromEntries(new URL(request.url).searchParams);
+  const options = parseOptions(optionsSchema, fields);
+
+  return { input: { ...options, bytes, mimeType: validateDocument(bytes, contentType) }, fields };
+}
+
+// Room for multipart boundaries and form fields on top of the file itself.
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * The request body, read chunk by chunk and abandoned with a 413 as soon as it
+ * passes `limit` bytes, so a body without a Content-Length can't fill memory.
+ */
+async function readBody(request: Request, limit: number): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > limit) {
+        await reader.cancel().catch(() => undefined);
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+async function parseBody(request: Request): Promise<ParsedBody> {
+  const header = request.headers.get("content-type") ?? "";
+  const contentType = header.split(";")[0].trim().toLowerCase();
+
+  // Base64 in JSON is a third larger than the file; raw bodies are the file itself.
+  const limit =
+    contentType === "application/json"
+      ? MAX_UPLOAD_BYTES * 4 / 3 + MULTIPART_OVERHEAD
+      : contentType === "multipart/form-data"
+        ? MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD
+        : MAX_UPLOAD_BYTES;
+
+  // Refuse early from the declared length, then enforce the limit on what actually arrives.
+  const declaredLength = Number(request.headers.get("content-length")) || 0;
+  if (declaredLength > limit) {
+    throw tooLarge();
+  }
+  const raw = await readBody(request, limit);
+
+  if (contentType === "application/json") return parseJsonBody(raw);
+  if (contentType === "multipart/form-data") return parseMultipartBody(raw, header);
+  return parseBinaryBody(request, raw, contentType);
+}
+
+/**
+ * Reads `/api/extract` input in any of its three forms:
+ * - `application/json` with `image` as base64 or a data URL;
+ * - `multipart/form-data` with a `file` field;
+ * - a raw image or PDF body, with options in the query string.
+ * Options are validated with zod; the document by size and magic bytes.
+ */
+export async function parseExtractionRequest(request: Request): Promise<ExtractionRequest> {
+  return (await parseBody(request)).input;
+}
+
+/** Reads `/api/jobs` input: the same forms and options as `/api/extract`, plus `callback_url`. */
+export async function parseJobRequest(request: Request): Promise<{ input: ExtractionRequest; options: JobOptions }> {
+  const { input, fields } = await parseBody(request);
+  return { input, options: parseOptions(jobOptionsSchema, fields) };
+}
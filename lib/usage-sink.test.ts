@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { UsageRecord } from "@/lib/usage";
+import { createJsonlUsageSink } from "@/lib/usage-sink";
+
+const record = (timestamp: string, cost: number | null): UsageRecord => ({
+  id: crypto.randomUUID(),
+  timestamp,
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+  department: null,
+  outcome: "success",
+  status: 200,
+  input_tokens: 1000,
+  output_tokens: 200,
+  total_tokens: 1200,
+  cost_usd: cost,
+  latency_ms: 900,
+  attempts: 1,
+  cache: "miss",
+});
+
+describe("JSON-lines usage sink", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "usage-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("adds today's records to the spend read from the log", async () => {
+    const path = join(directory, "today.jsonl");
+    const lines = [record("2024-03-13T23:59:00.000Z", 5), record("2024-03-14T08:00:00.000Z", 0.25)];
+    await writeFile(path, lines.map((line) => JSON.stringify(line) + "\n").join(""));
+    const sink = createJsonlUsageSink(path);
+    const now = new Date("2024-03-14T12:00:00.000Z");
+
+    assert.equal(await sink.spentToday(now), 0.25);
+    await sink.write(record("2024-03-14T12:00:00.000Z", 0.5));
+    await sink.write(record("2024-03-14T12:00:01.000Z", null));
+    assert.equal(await sink.spentToday(now), 0.75);
+  });
+
+  test("starts again from the log on a new day", async () => {
+    const sink = createJsonlUsageSink(join(directory, "rollover.jsonl"));
+
+    await sink.write(record("2024-03-14T23:00:00.000Z", 1));
+    assert.equal(await sink.spentToday(new Date("2024-03-14T23:30:00.000Z")), 1);
+    await sink.write(record("2024-03-15T00:10:00.000Z", 2));
+    assert.equal(await sink.spentToday(new Date("2024-03-15T00:30:00.000Z")), 2);
+  });
+});
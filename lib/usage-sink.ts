@@ -0,0 +1,118 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { spentToday, startOfUtcDay, type UsageRecord } from "@/lib/usage";
+
+/**
+ * Where usage records go. `read` returns records at or after `since`, oldest first.
+ * `spentToday` is checked on every request, so it should not read the whole log.
+ */
+export interface UsageSink {
+  write(record: UsageRecord): Promise<void>;
+  read(since?: Date): Promise<UsageRecord[]>;
+  /** Cost of the records from the current UTC day. */
+  spentToday(now?: Date): Promise<number>;
+}
+
+const after = (records: UsageRecord[], since?: Date) =>
+  since ? records.filter((record) => Date.parse(record.timestamp) >= since.getTime()) : records;
+
+export function createMemoryUsageSink(): UsageSink {
+  const records: UsageRecord[] = [];
+
+  return {
+    async write(record) {
+      records.push(record);
+    },
+    async read(since) {
+      return after(records, since);
+    },
+    async spentToday(now) {
+      return spentToday(records, now);
+    },
+  };
+}
+
+/**
+ * Appends one JSON object per line. The file and its directory are created on first write.
+ * Today's spend is read from the file once a day and then kept up to date as records are
+ * written, so budget checks don't re-read the log; other processes' writes aren't seen.
+ */
+export function createJsonlUsageSink(path: string): UsageSink {
+  let today: { day: string; spent: number } | null = null;
+  // Writes and the daily read go one at a time, so no record is counted twice or missed.
+  let pending: Promise<unknown> = Promise.resolve();
+  const serially = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = pending.then(task, task);
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const read = async (since?: Date) => {
+    let contents: string;
+    try {
+      contents = await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash mid-write; skip it rather than lose the whole log.
+      }
+    }
+    return after(records, since);
+  };
+
+  return {
+    write(record) {
+      return serially(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, JSON.stringify(record) + "\n", "utf8");
+        if (today && record.timestamp.startsWith(today.day)) today.spent += record.cost_usd ?? 0;
+      });
+    },
+    read,
+    spentToday(now = new Date()) {
+      return serially(async () => {
+        const day = now.toISOString().slice(0, 10);
+        if (today?.day !== day) {
+          today = { day, spent: spentToday(await read(startOfUtcDay(now)), now) };
+        }
+        return today.spent;
+      });
+    },
+  };
+}
+
+export const DEFAULT_USAGE_LOG = ".data/usage.jsonl";
+
+let sink: UsageSink | null = null;
+
+/**
+ * Process-wide sink: a JSON-lines file at USAGE_LOG_PATH (default `.data/usage.jsonl`),
+ * or memory when USAGE_SINK=memory.
+ */
+export function getUsageSink(): UsageSink {
+  if (!sink) {
+    sink = process.env.USAGE_SINK === "memory"
+      ? createMemoryUsageSink()
+      : createJsonlUsageSink(process.env.USAGE_LOG_PATH || DEFAULT_USAGE_LOG);
+  }
+  return sink;
+}
+
+/** Replaces the process-wide sink, e.g. with one that ships records to a metrics service. */
+export function setUsageSink(next: UsageSink) {
+  sink = next;
+}
+
+/** The daily budget from DAILY_BUDGET_USD, or undefined when spending is unlimited. */
+export function getDailyBudget(): number | undefined {
+  const budget = Number(process.env.DAILY_BUDGET_USD);
+  return process.env.DAILY_BUDGET_USD && Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
@@ -0,0 +1,153 @@
+import type { LanguageModelUsage } from "ai";
+import { z } from "zod";
+import pricingConfig from "@/config/pricing.json";
+
+/** One line of the usage log: a single call to `/api/extract`, successful or not. */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  /** The provider that answered, or the last one tried when the request failed. */
+  provider: string | null;
+  model: string | null;
+  department: string | null;
+  /** "success", or the API error code the request failed with. */
+  outcome: string;
+  status: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  /** Estimated from config/pricing.json for every provider call, retries and fallbacks included; null when none was priced. */
+  cost_usd: number | null;
+  latency_ms: number;
+  /** Provider calls made, across retries and fallbacks; 0 for a cache hit. */
+  attempts: number;
+  /** Result cache outcome; null when the request failed before the cache was checked. */
+  cache: "hit" | "miss" | "bypass" | null;
+}
+
+/** USD per million tokens. */
+export const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+const PRICES: Record<string, ModelPrice> = z.record(z.string(), modelPriceSchema).parse(pricingConfig);
+
+export const getModelPrice = (model: string): ModelPrice | null => PRICES[model] ?? null;
+
+/** Cost of one call in USD, or null for a model missing from the price table. */
+export function estimateCost(model: string, usage: LanguageModelUsage | undefined): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  const cost = ((usage?.inputTokens ?? 0) * price.input + (usage?.outputTokens ?? 0) * price.output) / 1_000_000;
+  // Round away floating-point noise; fractions of a micro-dollar don't matter.
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+export interface BudgetStatus {
+  limit_usd: number;
+  spent_usd: number;
+  remaining_usd: number;
+  exhausted: boolean;
+  /** Budgets run per UTC day. */
+  resets_at: string;
+}
+
+export const startOfUtcDay = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+const sumCost = (records: UsageRecord[]) => records.reduce((sum, record) => sum + (record.cost_usd ?? 0), 0);
+
+/** Today's (UTC) spend from records, which may include other days. */
+export const spentToday = (records: UsageRecord[], now = new Date()) =>
+  sumCost(records.filter((record) => Date.parse(record.timestamp) >= startOfUtcDay(now).getTime()));
+
+/** Spend against a daily limit, given what has been spent so far in the current UTC day. */
+export function budgetStatus(spent: number, limitUsd: number, now = new Date()): BudgetStatus {
+  const dayStart = startOfUtcDay(now);
+
+  return {
+    limit_usd: limitUsd,
+    spent_usd: spent,
+    remaining_usd: Math.max(0, limitUsd - spent),
+    exhausted: spent >= limitUsd,
+    resets_at: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+export interface UsageTotals {
+  requests: number;
+  failed: number;
+  cache_hits: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  since: string;
+  p95_latency_ms: number;
+  by_provider: Record<string, UsageTotals>;
+  /** Oldest first, one entry per UTC day with any requests. */
+  by_day: ({ date: string } & UsageTotals)[];
+  outcomes: Record<string, number>;
+  /** Models that were used but have no price, so their cost counts as zero. */
+  unpriced_models: string[];
+  budget: BudgetStatus | null;
+  recent: UsageRecord[];
+}
+
+function totals(records: UsageRecord[]): UsageTotals {
+  const latency = records.reduce((sum, record) => sum + record.latency_ms, 0);
+
+  return {
+    requests: records.length,
+    failed: records.filter((record) => record.outcome !== "success").length,
+    cache_hits: records.filter((record) => record.cache === "hit").length,
+    input_tokens: records.reduce((sum, record) => sum + (record.input_tokens ?? 0), 0),
+    output_tokens: records.reduce((sum, record) => sum + (record.output_tokens ?? 0), 0),
+    cost_usd: sumCost(records),
+    avg_latency_ms: records.length > 0 ? Math.round(latency / records.length) : 0,
+  };
+}
+
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const value = key(record);
+    groups.set(value, [...(groups.get(value) ?? []), record]);
+  }
+  return groups;
+}
+
+const RECENT_RECORDS = 20;
+
+/** Aggregates the records from `since` on, for the usage endpoint and dashboard. */
+export function summarizeUsage(
+  records: UsageRecord[],
+  { since, dailyBudgetUsd, now = new Date() }: { since: Date; dailyBudgetUsd?: number; now?: Date }
+): UsageSummary {
+  const inRange = records
+    .filter((record) => Date.parse(record.timestamp) >= since.getTime())
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const latencies = inRange.map((record) => record.latency_ms).sort((a, b) => a - b);
+
+  return {
+    since: since.toISOString(),
+    ...totals(inRange),
+    p95_latency_ms: latencies.length > 0 ? latencies[Math.ceil(latencies.length * 0.95) - 1] : 0,
+    by_provider: Object.fromEntries(
+      [...groupBy(inRange, (record) => record.provider ?? "none")].map(([provider, group]) => [provider, totals(group)])
+    ),
+    by_day: [...groupBy(inRange, (record) => record.timestamp.slice(0, 10))].map(([date, group]) => ({ date, ...totals(group) })),
+    outcomes: Object.fromEntries([...groupBy(inRange, (record) => record.outcome)].map(([outcome, group]) => [outcome, group.length])),
+    unpriced_models: [
+      ...new Set(inRange.filter((record) => record.model && record.cost_usd === null).map((record) => record.model as string)),
+    ],
+    budget: dailyBudgetUsd !== undefined ? budgetStatus(spentToday(records, now), dailyBudgetUsd, now) : null,
+    recent: inRange.slice(-RECENT_RECORDS).reverse(),
+  };
+}
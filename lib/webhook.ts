@@ -0,0 +1,142 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/** Outcome of sending one webhook, kept on the job so callers can see why a callback didn't arrive. */
+export interface WebhookDelivery {
+  url: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  last_attempt_at: string | null;
+  /** HTTP status of the last response; null when the request itself failed. */
+  response_status: number | null;
+  last_error: string | null;
+}
+
+/** The shared secret webhooks are signed with (WEBHOOK_SECRET); callbacks are refused without one. */
+export const getWebhookSecret = () => process.env.WEBHOOK_SECRET || undefined;
+
+/** Hosts callbacks may be sent to, from WEBHOOK_ALLOWED_HOSTS (comma-separated). */
+const allowedHosts = () =>
+  (process.env.WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Callbacks need both a signing secret and a host allowlist. Without the
+ * allowlist a caller could point the server at loopback, private or cloud
+ * metadata addresses, so callbacks stay off until one is set.
+ */
+export const areCallbacksEnabled = () => Boolean(getWebhookSecret()) && allowedHosts().length > 0;
+
+export const isAllowedCallback = (url: string) => allowedHosts().includes(new URL(url).hostname.toLowerCase());
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Webhook-Signature: sha256=<hex>`. */
+export const signWebhook = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Receivers should refuse deliveries older than this, so a captured one can't be replayed later.
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Checks a received webhook; for receivers written in TypeScript, and documents the scheme for others. */
+export function verifyWebhook(
+  secret: string,
+  { body, signature, timestamp }: { body: string; signature: string | null; timestamp: string | null },
+  now = Date.now()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!signature?.startsWith("sha256=") || !Number.isInteger(seconds)) return false;
+  if (Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhook(secret, seconds, body), "hex");
+  const presented = Buffer.from(signature.slice("sha256=".length), "hex");
+  return expected.length === presented.length && timingSafeEqual(expected, presented);
+}
+
+export interface DeliveryOptions {
+  secret: string;
+  /** Sent as `X-Webhook-Id`; the same on every retry, so receivers can drop repeats. */
+  id: string;
+  event: string;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  /** Called after every attempt with the delivery so far. */
+  onAttempt?: (delivery: WebhookDelivery) => void | Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * POSTs `payload` as signed JSON, retrying with exponential backoff until a
+ * 2xx response or `maxAttempts` (WEBHOOK_MAX_ATTEMPTS, default 5). Never throws;
+ * the returned delivery says how it went.
+ */
+export async function deliverWebhook(
+  url: string,
+  payload: unknown,
+  {
+    secret,
+    id,
+    event,
+    maxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+    timeoutMs = 10_000,
+    baseDelayMs = 1_000,
+    onAttempt,
+  }: DeliveryOptions
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload);
+  let delivery: WebhookDelivery = {
+    url,
+    status: "pending",
+    attempts: 0,
+    last_attempt_at: null,
+    response_status: null,
+    last_error: null,
+  };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    // Signed per attempt: the timestamp has to be fresh for the receiver's replay check.
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "receipt-extractor-webhooks",
+          "X-Webhook-Id": id,
+          "X-Webhook-Event": event,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhook(secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+        redirect: "manual",
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `Receiver answered ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Request failed";
+    }
+
+    const done = error === null;
+    delivery = {
+      url,
+      status: done ? "delivered" : attempt === maxAttempts ? "failed" : "pending",
+      attempts: attempt,
+      last_attempt_at: new Date().toISOString(),
+      response_status: responseStatus,
+      last_error: error,
+    };
+    await onAttempt?.(delivery);
+    if (done) break;
+    if (attempt < maxAttempts) await sleep(baseDelayMs * 2 ** (attempt - 1));
+  }
+
+  return delivery;
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js spawns worker threads from its own package files on the server.
+  serverExternalPackages: ["tesseract.js"],
 };
 
 export default nextConfig;
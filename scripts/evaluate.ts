@@ -0,0 +1,233 @@
+/**
+ * Runs a labeled receipt corpus through the extraction pipeline and reports
+ * how well it did, or compares two saved reports.
+ *
+ *   npm run eval -- <corpus> [--provider id] [--model id] [--department name]
+ *                            [--name label] [--output report.json] [--record fixtures.json]
+ *   npm run eval -- --compare baseline.json candidate.json
+ *
+ * The corpus is a folder of receipts (images or PDFs), each next to a JSON
+ * file of the same name with its expected fields; see `groundTruthSchema`.
+ */
+import { createHash } from "node:crypto";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { extname, join, parse } from "node:path";
+import { parseArgs } from "node:util";
+import { DEFAULT_DEPARTMENT, DEPARTMENTS, getCategorySet, isDepartment } from "@/lib/categories";
+import {
+  compareReports,
+  formatComparison,
+  formatReport,
+  groundTruthSchema,
+  missedDocument,
+  scoreDocument,
+  summarizeEvaluation,
+  type CaseResult,
+  type EvaluationReport,
+  type ExpectedBill,
+} from "@/lib/evaluation";
+import { documentExtractionSchema, EXTRACTION_SCHEMA_VERSION } from "@/lib/expense";
+import { runExtraction, toApiError } from "@/lib/extraction";
+import { buildSystemPrompt } from "@/lib/prompt";
+import { getProvider, isProviderId, PROVIDER_IDS } from "@/lib/providers";
+import { validateDocument } from "@/lib/upload";
+import { createMemoryUsageSink, setUsageSink } from "@/lib/usage-sink";
+
+const DOCUMENT_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif", ".heic", ".heif", ".pdf"]);
+
+// Providers whose model can be chosen per run, and the variable that chooses it.
+const MODEL_VARIABLES: Record<string, string> = {
+  gemini: "GEMINI_MODEL",
+  "ai-sdk": "AI_SDK_MODEL",
+};
+
+const USAGE = `Usage:
+  npm run eval -- <corpus> [--provider id] [--model id] [--department name] [--name label] [--output report.json] [--record fixtures.json]
+  npm run eval -- --compare baseline.json candidate.json`;
+
+interface LabeledDocument {
+  name: string;
+  path: string;
+  expected: ExpectedBill[];
+}
+
+async function loadCorpus(directory: string): Promise<LabeledDocument[]> {
+  const files = (await readdir(directory)).sort();
+  const names = new Set(files);
+  const documents: LabeledDocument[] = [];
+
+  for (const file of files) {
+    if (!DOCUMENT_EXTENSIONS.has(extname(file).toLowerCase())) continue;
+    const labels = `${parse(file).name}.json`;
+    if (!names.has(labels)) {
+      console.warn(`Skipping ${file}: no ${labels} next to it`);
+      continue;
+    }
+
+    const result = groundTruthSchema.safeParse(JSON.parse(await readFile(join(directory, labels), "utf8")));
+    if (!result.success) {
+      throw new Error(`${labels} is not a valid ground-truth file: ${result.error.issues[0]?.message}`);
+    }
+    documents.push({ name: file, path: join(directory, file), expected: result.data });
+  }
+
+  return documents;
+}
+
+/** A recorded answer, in the fixture format the mock provider replays. */
+interface Recording {
+  document_sha256: string;
+  model: string | null;
+  usage: { inputTokens?: number; outputTokens?: number };
+  bills: unknown[];
+}
+
+async function evaluateDocument(
+  { name, path, expected }: LabeledDocument,
+  { provider, department }: { provider: string; department: string }
+): Promise<{ result: CaseResult; recording: Recording | null }> {
+  const bytes = new Uint8Array(await readFile(path));
+  const startedAt = Date.now();
+
+  try {
+    const mimeType = validateDocument(bytes, null);
+    // Bypass the result cache, so every run pays for, and is timed on, a real provider call.
+    // Each document is its own upload, so copies within the corpus aren't flagged against each other.
+    const response = await runExtraction({ bytes, mimeType, provider, department, force: true }, `eval:${name}`);
+    const { model, input_tokens, output_tokens, cost_usd, latency_ms } = response.usage;
+
+    return {
+      result: {
+        document: name,
+        error: null,
+        provider: response.provider,
+        model,
+        fields: scoreDocument(expected, response.bills),
+        extra_bills: Math.max(0, response.bills.length - expected.length),
+        cost_usd,
+        input_tokens,
+        output_tokens,
+        latency_ms,
+      },
+      recording: {
+        document_sha256: createHash("sha256").update(bytes).digest("hex"),
+        model,
+        usage: { inputTokens: input_tokens ?? undefined, outputTokens: output_tokens ?? undefined },
+        bills: documentExtractionSchema.parse({ bills: response.bills }).bills,
+      },
+    };
+  } catch (error) {
+    return {
+      result: {
+        document: name,
+        error: toApiError(error).code,
+        provider: null,
+        model: null,
+        fields: missedDocument(expected),
+        extra_bills: 0,
+        cost_usd: null,
+        input_tokens: null,
+        output_tokens: null,
+        latency_ms: Date.now() - startedAt,
+      },
+      recording: null,
+    };
+  }
+}
+
+async function evaluate(
+  corpus: string,
+  options: { provider?: string; model?: string; department?: string; name?: string; output?: string; record?: string }
+) {
+  const providerId = options.provider || process.env.EXTRACTION_PROVIDER || "gemini";
+  if (!isProviderId(providerId)) {
+    throw new Error(`Unknown provider "${providerId}". Expected one of: ${PROVIDER_IDS.join(", ")}`);
+  }
+  const department = options.department || DEFAULT_DEPARTMENT;
+  if (!isDepartment(department)) {
+    throw new Error(`Unknown department "${department}". Expected one of: ${DEPARTMENTS.join(", ")}`);
+  }
+  if (options.model) {
+    const variable = MODEL_VARIABLES[providerId];
+    if (!variable) throw new Error(`The ${providerId} provider has no model to choose`);
+    process.env[variable] = options.model;
+  }
+
+  // Score the provider under test alone, and keep evaluation spend out of the usage log.
+  process.env.EXTRACTION_FALLBACKS = "";
+  setUsageSink(createMemoryUsageSink());
+
+  const documents = await loadCorpus(corpus);
+  if (documents.length === 0) throw new Error(`No labeled documents found in ${corpus}`);
+
+  const provider = getProvider(providerId);
+  const cases: CaseResult[] = [];
+  const recordings: Recording[] = [];
+
+  for (const [index, document] of documents.entries()) {
+    const { result, recording } = await evaluateDocument(document, { provider: providerId, department });
+    cases.push(result);
+    if (recording) recordings.push(recording);
+
+    const exact = result.fields.filter((score) => score.exact).length;
+    const outcome = result.error ? `failed (${result.error})` : `${exact}/${result.fields.length} fields exact`;
+    console.error(`[${index + 1}/${documents.length}] ${document.name}: ${outcome}`);
+  }
+
+  const report = summarizeEvaluation(
+    {
+      name: options.name || (options.model ? `${providerId}:${options.model}` : providerId),
+      provider: providerId,
+      model: provider.model,
+      department,
+      prompt_sha256: createHash("sha256").update(buildSystemPrompt(getCategorySet(department))).digest("hex"),
+      schema_version: EXTRACTION_SCHEMA_VERSION,
+    },
+    cases
+  );
+
+  console.log(formatReport(report));
+  if (options.output) {
+    await writeFile(options.output, JSON.stringify(report, null, 2));
+    console.error(`Report written to ${options.output}`);
+  }
+  if (options.record) {
+    await writeFile(options.record, JSON.stringify(recordings, null, 2));
+    console.error(`${recordings.length} answers recorded to ${options.record}; replay them with MOCK_EXTRACTION_FIXTURES=${options.record} --provider mock`);
+  }
+}
+
+const readReport = async (path: string): Promise<EvaluationReport> => JSON.parse(await readFile(path, "utf8"));
+
+async function compare(baselinePath: string, candidatePath: string) {
+  const [baseline, candidate] = await Promise.all([readReport(baselinePath), readReport(candidatePath)]);
+  console.log(formatComparison(compareReports(baseline, candidate), baseline, candidate));
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: "string" },
+      model: { type: "string" },
+      department: { type: "string" },
+      name: { type: "string" },
+      output: { type: "string", short: "o" },
+      record: { type: "string" },
+      compare: { type: "boolean" },
+    },
+  });
+
+  if (values.compare) {
+    if (positionals.length !== 2) throw new Error(USAGE);
+    await compare(positionals[0], positionals[1]);
+  } else {
+    if (positionals.length !== 1) throw new Error(USAGE);
+    await evaluate(positionals[0], values);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});